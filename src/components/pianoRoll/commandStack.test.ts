@@ -0,0 +1,249 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CommandStack, type CommandStackOptions } from './commandStack'
+import { createPianoRollState, DEFAULT_TRACK_ID, type PianoRollState, type TrackData } from './pianoRollState'
+import { applyStateDiff, captureState, diffStates, mapDiffTracks, mergeStateDiffs, type StateDiff, type StateSnapshot } from './stateDiff'
+
+function createStack(state: PianoRollState, options?: CommandStackOptions) {
+  const onChange = vi.fn()
+  const stack = new CommandStack<StateSnapshot, StateDiff>({
+    capture: () => captureState(state),
+    diff: diffStates,
+    apply: (diff, direction) => applyStateDiff(state, diff, direction),
+    merge: mergeStateDiffs
+  }, onChange, options)
+  return { stack, onChange }
+}
+
+function addNote(state: PianoRollState, id: string, pitch = 60) {
+  state.notes.set(id, { id, trackId: DEFAULT_TRACK_ID, pitch, position: 0, duration: 1, velocity: 100 })
+}
+
+const pitches = (state: PianoRollState) => Array.from(state.notes.values()).map(note => note.pitch)
+
+describe('CommandStack', () => {
+  it('undoes and redoes commands in reverse/forward order', () => {
+    const state = createPianoRollState()
+    const { stack } = createStack(state)
+
+    stack.executeCommand('Add A', () => addNote(state, 'a', 60))
+    stack.executeCommand('Add B', () => addNote(state, 'b', 62))
+    stack.executeCommand('Move A', () => { state.notes.get('a')!.pitch = 65 })
+
+    stack.undo()
+    expect(pitches(state)).toEqual([60, 62])
+    stack.undo()
+    expect(pitches(state)).toEqual([60])
+    stack.redo()
+    expect(pitches(state)).toEqual([60, 62])
+    stack.redo()
+    expect(pitches(state)).toEqual([65, 62])
+    expect(stack.canRedo()).toBe(false)
+  })
+
+  it('drops the redo tail when a new command is executed', () => {
+    const state = createPianoRollState()
+    const { stack } = createStack(state)
+
+    stack.executeCommand('Add A', () => addNote(state, 'a'))
+    stack.executeCommand('Add B', () => addNote(state, 'b'))
+    stack.undo()
+    stack.executeCommand('Add C', () => addNote(state, 'c'))
+
+    expect(stack.getEntries()).toEqual(['Add A', 'Add C'])
+    expect(stack.canRedo()).toBe(false)
+    stack.undo()
+    stack.undo()
+    expect(state.notes.size).toBe(0)
+    expect(stack.canUndo()).toBe(false)
+  })
+
+  it('does not record commands that change nothing', () => {
+    const state = createPianoRollState()
+    const { stack, onChange } = createStack(state)
+
+    stack.executeCommand('Noop', () => {})
+
+    expect(stack.getEntries()).toEqual([])
+    expect(onChange).not.toHaveBeenCalled()
+  })
+
+  it('restores the selection with the notes', () => {
+    const state = createPianoRollState()
+    const { stack } = createStack(state)
+
+    stack.executeCommand('Add A', () => {
+      addNote(state, 'a')
+      state.selection.selectedIds.add('a')
+    })
+    stack.executeCommand('Delete A', () => {
+      state.notes.delete('a')
+      state.selection.selectedIds.delete('a')
+    })
+
+    stack.undo()
+    expect(state.notes.has('a')).toBe(true)
+    expect([...state.selection.selectedIds]).toEqual(['a'])
+  })
+
+  it('restores song timing with the notes it trimmed', () => {
+    const state = createPianoRollState()
+    const { stack } = createStack(state)
+    addNote(state, 'a')
+    state.notes.get('a')!.position = 60
+
+    stack.executeCommand('Set Song Length', () => {
+      state.grid.maxLength = 32
+      state.grid.bpm = 90
+      state.notes.delete('a')
+    })
+    expect(stack.getEntries()).toEqual(['Set Song Length'])
+
+    stack.undo()
+    expect(state.grid.maxLength).toBe(64)
+    expect(state.grid.bpm).toBe(120)
+    expect(state.notes.get('a')!.position).toBe(60)
+  })
+
+  it('restores the MIDI file resolution with the timing', () => {
+    const state = createPianoRollState()
+    const { stack } = createStack(state)
+
+    stack.executeCommand('Import MIDI', () => {
+      state.grid.ticksPerQuarter = 96
+    })
+    stack.undo()
+    expect(state.grid.ticksPerQuarter).toBe(480)
+
+    stack.redo()
+    expect(state.grid.ticksPerQuarter).toBe(96)
+  })
+
+  it('does not let later in-place edits leak into recorded history', () => {
+    const state = createPianoRollState()
+    const { stack } = createStack(state)
+
+    stack.executeCommand('Add A', () => addNote(state, 'a', 60))
+    // e.g. a drag that mutates the note before its own command is pushed
+    state.notes.get('a')!.pitch = 72
+    stack.undo()
+    stack.redo()
+
+    expect(state.notes.get('a')!.pitch).toBe(60)
+  })
+
+  it('jumps to any history entry', () => {
+    const state = createPianoRollState()
+    const { stack } = createStack(state)
+
+    stack.executeCommand('Add A', () => addNote(state, 'a'))
+    stack.executeCommand('Add B', () => addNote(state, 'b'))
+    stack.executeCommand('Add C', () => addNote(state, 'c'))
+
+    stack.jumpTo(0)
+    expect([...state.notes.keys()]).toEqual(['a'])
+    expect(stack.getCurrentIndex()).toBe(0)
+    stack.jumpTo(2)
+    expect([...state.notes.keys()]).toEqual(['a', 'b', 'c'])
+    stack.jumpTo(-1)
+    expect(state.notes.size).toBe(0)
+  })
+
+  it('rewrites recorded diffs so undo no longer brings back what was dropped', () => {
+    const state = createPianoRollState()
+    const { stack } = createStack(state)
+    const track = () => state.tracks.get(DEFAULT_TRACK_ID)!
+    stack.executeCommand('Update Track', () => { state.tracks.set(DEFAULT_TRACK_ID, { ...track(), instrument: 'strings' }) })
+    stack.executeCommand('Update Track', () => { state.tracks.set(DEFAULT_TRACK_ID, { ...track(), muted: true }) })
+
+    const swap = (data: TrackData) => data.instrument === 'strings' ? { ...data, instrument: 'synth' } : data
+    state.tracks.set(DEFAULT_TRACK_ID, swap(track()))
+    stack.mapDiffs(diff => mapDiffTracks(diff, swap))
+
+    stack.undo()
+    expect(track()).toMatchObject({ muted: false, instrument: 'synth' })
+    stack.redo()
+    expect(track()).toMatchObject({ muted: true, instrument: 'synth' })
+  })
+
+  it('caps the history, dropping the oldest entries first', () => {
+    const state = createPianoRollState()
+    const { stack } = createStack(state, { maxEntries: 2 })
+
+    stack.executeCommand('Add A', () => addNote(state, 'a'))
+    stack.executeCommand('Add B', () => addNote(state, 'b'))
+    stack.executeCommand('Add C', () => addNote(state, 'c'))
+
+    expect(stack.getEntries()).toEqual(['Add B', 'Add C'])
+    stack.undo()
+    stack.undo()
+    stack.undo()
+    expect([...state.notes.keys()]).toEqual(['a'])
+  })
+
+  describe('merging', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('folds repeated mergeable commands into one entry', () => {
+      const state = createPianoRollState()
+      const { stack } = createStack(state)
+      stack.executeCommand('Add A', () => addNote(state, 'a', 60))
+
+      for (let i = 0; i < 3; i++) {
+        stack.executeCommand('Move Selection', () => { state.notes.get('a')!.pitch++ }, { merge: true })
+        vi.advanceTimersByTime(100)
+      }
+
+      expect(stack.getEntries()).toEqual(['Add A', 'Move Selection'])
+      stack.undo()
+      expect(state.notes.get('a')!.pitch).toBe(60)
+    })
+
+    it('keeps commands separate outside the merge window', () => {
+      const state = createPianoRollState()
+      const { stack } = createStack(state, { mergeWindowMs: 500 })
+      stack.executeCommand('Add A', () => addNote(state, 'a', 60))
+
+      stack.executeCommand('Move Selection', () => { state.notes.get('a')!.pitch++ }, { merge: true })
+      vi.advanceTimersByTime(600)
+      stack.executeCommand('Move Selection', () => { state.notes.get('a')!.pitch++ }, { merge: true })
+
+      expect(stack.getEntries()).toEqual(['Add A', 'Move Selection', 'Move Selection'])
+    })
+
+    it('folds a whole session into one entry however long it runs', () => {
+      const state = createPianoRollState()
+      const { stack } = createStack(state, { mergeWindowMs: 500 })
+      const setTempo = (bpm: number, mergeSession: string) =>
+        stack.executeCommand('Set Tempo', () => { state.grid.bpm = bpm }, { merge: true, mergeSession })
+
+      setTempo(100, 'clock-1')
+      vi.advanceTimersByTime(5000)
+      setTempo(101, 'clock-1')
+      vi.advanceTimersByTime(5000)
+      setTempo(102, 'clock-2')
+
+      expect(stack.getEntries()).toEqual(['Set Tempo', 'Set Tempo'])
+      stack.undo()
+      expect(state.grid.bpm).toBe(101)
+      stack.undo()
+      expect(state.grid.bpm).toBe(120)
+    })
+
+    it('drops the entry when merged edits cancel out', () => {
+      const state = createPianoRollState()
+      const { stack } = createStack(state)
+      stack.executeCommand('Add A', () => addNote(state, 'a', 60))
+
+      stack.executeCommand('Move Selection', () => { state.notes.get('a')!.pitch++ }, { merge: true })
+      stack.executeCommand('Move Selection', () => { state.notes.get('a')!.pitch-- }, { merge: true })
+
+      expect(stack.getEntries()).toEqual(['Add A'])
+    })
+  })
+})
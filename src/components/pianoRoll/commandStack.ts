@@ -1,43 +1,99 @@
-// Simple snapshot-based command stack for undo/redo
+// Diff-based command stack for undo/redo. Each command stores only the
+// structural change it made; the adapter knows how to capture, diff, apply
+// and merge state for the concrete editor.
+
+export interface StateAdapter<TSnapshot, TDiff> {
+  capture: () => TSnapshot
+  diff: (before: TSnapshot, after: TSnapshot) => TDiff | null  // null = no change
+  apply: (diff: TDiff, direction: 'undo' | 'redo') => void
+  merge: (previous: TDiff, next: TDiff) => TDiff | null  // null = changes cancel out
+}
 
-export interface Command {
+export interface Command<TDiff> {
   name: string
-  beforeState: string
-  afterState: string
+  diff: TDiff
+  mergeable: boolean
+  mergeSession?: string
+  timestamp: number
+}
+
+export interface CommandStackOptions {
+  maxEntries?: number  // oldest commands are dropped beyond this
+  mergeWindowMs?: number  // mergeable commands further apart than this stay separate
+}
+
+export interface CommandOptions {
+  // Fold into the previous command if it has the same name and was also mergeable
+  merge?: boolean
+  // With merge: fold into a previous command of the same session however long
+  // ago it was, e.g. every tempo change while following one run of a clock
+  mergeSession?: string
 }
 
-export class CommandStack {
-  private stack: Command[] = []
+export const DEFAULT_MAX_HISTORY_ENTRIES = 200
+const DEFAULT_MERGE_WINDOW_MS = 1000
+
+export class CommandStack<TSnapshot, TDiff> {
+  private stack: Command<TDiff>[] = []
   private currentIndex = -1
   private onChangeCallback?: () => void
+  private maxEntries: number
+  private mergeWindowMs: number
 
   constructor(
-    private captureState: () => string,
-    private restoreState: (state: string) => void,
-    onChangeCallback?: () => void
+    private adapter: StateAdapter<TSnapshot, TDiff>,
+    onChangeCallback?: () => void,
+    options: CommandStackOptions = {}
   ) {
     this.onChangeCallback = onChangeCallback
+    this.maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_HISTORY_ENTRIES)
+    this.mergeWindowMs = options.mergeWindowMs ?? DEFAULT_MERGE_WINDOW_MS
   }
 
   // Execute a command by capturing before/after state
-  executeCommand(name: string, action: () => void) {
-    const before = this.captureState()
+  executeCommand(name: string, action: () => void, options: CommandOptions = {}) {
+    const before = this.adapter.capture()
     action()
-    const after = this.captureState()
+    this.pushCommand(name, before, this.adapter.capture(), options)
+  }
 
-    if (before !== after) {
-      this.pushCommand(name, before, after)
+  // Manually push a command from states captured around an interaction
+  pushCommand(name: string, beforeState: TSnapshot, afterState: TSnapshot, options: CommandOptions = {}) {
+    const diff = this.adapter.diff(beforeState, afterState)
+    if (diff === null) return
+
+    const now = Date.now()
+    const previous = this.stack[this.currentIndex]
+    const canMerge = options.merge &&
+      previous !== undefined &&
+      this.currentIndex === this.stack.length - 1 &&
+      previous.mergeable &&
+      previous.name === name &&
+      (options.mergeSession !== undefined
+        ? previous.mergeSession === options.mergeSession
+        : now - previous.timestamp <= this.mergeWindowMs)
+
+    if (canMerge) {
+      const merged = this.adapter.merge(previous.diff, diff)
+      if (merged === null) {
+        // The edits cancelled out - drop the entry entirely
+        this.stack.pop()
+        this.currentIndex--
+      } else {
+        previous.diff = merged
+        previous.timestamp = now
+      }
+      this.onChangeCallback?.()
+      return
     }
-  }
 
-  // Manually push a command with captured states
-  pushCommand(name: string, beforeState: string, afterState: string) {
     // Remove any commands after current index (for redo)
     this.stack = this.stack.slice(0, this.currentIndex + 1)
 
     // Add new command
-    this.stack.push({ name, beforeState, afterState })
+    this.stack.push({ name, diff, mergeable: options.merge ?? false, mergeSession: options.mergeSession, timestamp: now })
     this.currentIndex++
+    this.enforceLimit()
 
     this.onChangeCallback?.()
   }
@@ -54,7 +110,7 @@ export class CommandStack {
     if (!this.canUndo()) return
 
     const command = this.stack[this.currentIndex]!
-    this.restoreState(command.beforeState)
+    this.adapter.apply(command.diff, 'undo')
     this.currentIndex--
 
     this.onChangeCallback?.()
@@ -65,14 +121,77 @@ export class CommandStack {
 
     this.currentIndex++
     const command = this.stack[this.currentIndex]!
-    this.restoreState(command.afterState)
+    this.adapter.apply(command.diff, 'redo')
 
     this.onChangeCallback?.()
   }
 
+  // Command names, oldest first
+  getEntries(): string[] {
+    return this.stack.map(command => command.name)
+  }
+
+  // Index of the last applied command (-1 = nothing applied)
+  getCurrentIndex(): number {
+    return this.currentIndex
+  }
+
+  // Undo/redo repeatedly until the command at `index` is the last applied one
+  jumpTo(index: number) {
+    const target = Math.max(-1, Math.min(index, this.stack.length - 1))
+    if (target === this.currentIndex) return
+
+    while (this.currentIndex > target) {
+      this.adapter.apply(this.stack[this.currentIndex]!.diff, 'undo')
+      this.currentIndex--
+    }
+    while (this.currentIndex < target) {
+      this.currentIndex++
+      this.adapter.apply(this.stack[this.currentIndex]!.diff, 'redo')
+    }
+
+    this.onChangeCallback?.()
+  }
+
+  getMaxEntries(): number {
+    return this.maxEntries
+  }
+
+  setMaxEntries(maxEntries: number) {
+    this.maxEntries = Math.max(1, Math.floor(maxEntries))
+    if (this.enforceLimit()) {
+      this.onChangeCallback?.()
+    }
+  }
+
+  // Rewrite every recorded diff, e.g. when something they refer to is gone
+  mapDiffs(fn: (diff: TDiff) => TDiff) {
+    this.stack.forEach(command => {
+      command.diff = fn(command.diff)
+    })
+  }
+
   clear() {
     this.stack = []
     this.currentIndex = -1
     this.onChangeCallback?.()
   }
+
+  // Drop commands beyond the cap, oldest applied ones first, then the far end
+  // of the redo tail (undone commands can only be dropped from the end).
+  // Returns true if any were dropped.
+  private enforceLimit(): boolean {
+    const overflow = this.stack.length - this.maxEntries
+    if (overflow <= 0) return false
+
+    const appliedToDrop = Math.min(overflow, this.currentIndex + 1)
+    this.stack.splice(0, appliedToDrop)
+    this.currentIndex -= appliedToDrop
+
+    const redoToDrop = overflow - appliedToDrop
+    if (redoToDrop > 0) {
+      this.stack.splice(this.stack.length - redoToDrop, redoToDrop)
+    }
+    return true
+  }
 }
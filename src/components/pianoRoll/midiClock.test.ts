@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { createClockFollower, getClockSegments, parseSongPosition, songPositionMessage } from './midiClock'
+
+describe('songPositionMessage', () => {
+  it('counts sixteenth notes as two 7-bit bytes', () => {
+    expect(songPositionMessage(0)).toEqual([0xF2, 0, 0])
+    expect(songPositionMessage(33.3)).toEqual([0xF2, 5, 1])
+    expect(parseSongPosition(5, 1)).toBe(33.25)
+  })
+})
+
+describe('getClockSegments', () => {
+  it('spaces pulses by each tempo and keeps them on the pulse grid', () => {
+    const segments = getClockSegments({ bpm: 120, tempoChanges: [{ position: 4.01, bpm: 60 }] }, 8)
+
+    expect(segments).toHaveLength(2)
+    expect(segments[0]).toEqual({ start: 0, interval: 0.5 / 24, end: 4.01 * 0.5 })
+    // First pulse after the change sits on the next 1/24 quarter note
+    expect(segments[1]!.start).toBeCloseTo(2.005 + (4 + 1 / 24 - 4.01))
+    expect(segments[1]!.interval).toBeCloseTo(1 / 24)
+    expect(segments[1]!.end).toBeCloseTo(2.005 + 3.99)
+  })
+
+  it('stops at the end of the song', () => {
+    expect(getClockSegments({ bpm: 120, tempoChanges: [{ position: 16, bpm: 60 }] }, 8)).toHaveLength(1)
+  })
+})
+
+describe('createClockFollower', () => {
+  it('measures the tempo from a quarter note of pulses', () => {
+    const follower = createClockFollower()
+    const interval = 60000 / 100 / 24
+
+    for (let i = 0; i < 24; i++) follower.pulse(i * interval)
+    expect(follower.getBpm()).toBeNull()
+    follower.pulse(24 * interval)
+    expect(follower.getBpm()).toBe(100)
+
+    // A long gap starts the measurement over
+    follower.pulse(24 * interval + 1000)
+    expect(follower.getBpm()).toBeNull()
+  })
+
+  it('counts the position from Start or the song position while running', () => {
+    const follower = createClockFollower()
+    follower.setSongPosition(8)
+    follower.pulse(0)
+    expect(follower.getPosition()).toBe(8)
+
+    follower.continue()
+    for (let i = 1; i <= 12; i++) follower.pulse(i * 20)
+    follower.stop()
+    follower.pulse(260)
+    expect(follower.getPosition()).toBe(8.5)
+
+    follower.start()
+    expect(follower.getPosition()).toBe(0)
+    expect(follower.isRunning()).toBe(true)
+  })
+})
@@ -0,0 +1,102 @@
+import { createTempoConverter, getTempoSegments, type SongTiming } from './pianoRollTiming'
+
+// MIDI clock: 24 pulses per quarter note, Start / Continue / Stop, and the Song
+// Position Pointer (in sixteenth notes) to say where Continue picks up.
+
+export const CLOCKS_PER_QUARTER = 24
+export const CLOCK = 0xF8
+export const START = 0xFA
+export const CONTINUE = 0xFB
+export const STOP = 0xFC
+export const SONG_POSITION = 0xF2
+
+// Pulses further apart than this mean the clock stopped for a while
+const MAX_PULSE_GAP_MS = 500
+
+// Positions between sixteenths round down, as SPP can't say more
+export function songPositionMessage(position: number): number[] {
+  const sixteenths = Math.max(0, Math.min(0x3FFF, Math.floor(position * 4 + 1e-9)))
+  return [SONG_POSITION, sixteenths & 0x7F, sixteenths >> 7]
+}
+
+export function parseSongPosition(lsb: number, msb: number): number {
+  return ((lsb & 0x7F) | ((msb & 0x7F) << 7)) / 4
+}
+
+export interface ClockSegment {
+  start: number     // seconds of the first pulse
+  interval: number  // seconds between pulses
+  end: number       // seconds; the segment's pulses come before this
+}
+
+// One run of evenly spaced pulses per tempo, up to `end` (quarter notes), in
+// song seconds. Pulses stay on the 1/24 quarter-note grid across tempo changes.
+export function getClockSegments(timing: Pick<SongTiming, 'bpm' | 'tempoChanges'>, end: number): ClockSegment[] {
+  const { toSeconds } = createTempoConverter(timing)
+  const tempos = getTempoSegments(timing)
+
+  return tempos.flatMap((tempo, i) => {
+    const segmentEnd = Math.min(tempos[i + 1]?.position ?? end, end)
+    const firstPulse = Math.ceil(tempo.position * CLOCKS_PER_QUARTER - 1e-9) / CLOCKS_PER_QUARTER
+    if (firstPulse >= segmentEnd) return []
+    return [{ start: toSeconds(firstPulse), interval: 60 / tempo.bpm / CLOCKS_PER_QUARTER, end: toSeconds(segmentEnd) }]
+  })
+}
+
+// Follows an incoming clock: the tempo from the last quarter note of pulses,
+// and the song position from the last Start or Song Position Pointer plus the
+// pulses counted while running. Timestamps are milliseconds.
+export function createClockFollower() {
+  let running = false
+  let songPosition = 0
+  let pulses = 0
+  let lastPulseAt: number | null = null
+  const intervals: number[] = []
+
+  return {
+    pulse(timestamp: number) {
+      if (lastPulseAt !== null) {
+        const interval = timestamp - lastPulseAt
+        if (interval > MAX_PULSE_GAP_MS) {
+          intervals.length = 0
+        } else {
+          intervals.push(interval)
+          if (intervals.length > CLOCKS_PER_QUARTER) intervals.shift()
+        }
+      }
+      lastPulseAt = timestamp
+      if (running) pulses++
+    },
+
+    start() {
+      songPosition = 0
+      pulses = 0
+      running = true
+    },
+
+    // Carries on from where Stop left it, or from the last song position
+    continue() {
+      running = true
+    },
+
+    stop() {
+      running = false
+    },
+
+    setSongPosition(position: number) {
+      songPosition = position
+      pulses = 0
+    },
+
+    isRunning: () => running,
+
+    getPosition: () => songPosition + pulses / CLOCKS_PER_QUARTER,
+
+    // BPM to one decimal, or null before a quarter note of steady pulses
+    getBpm(): number | null {
+      if (intervals.length < CLOCKS_PER_QUARTER) return null
+      const average = intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length
+      return Math.round(60000 / (average * CLOCKS_PER_QUARTER) * 10) / 10
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { MidiFileError, parseMidiFile, writeMidiFile, writeMidiFileTracks } from './midiFile'
+
+const notes = [
+  { id: 'a', pitch: 60, position: 0, duration: 1, velocity: 100 },
+  { id: 'b', pitch: 64, position: 0.5, duration: 1.5, velocity: 90 },
+  { id: 'c', pitch: 60, position: 2, duration: 0.25, velocity: 80 }
+]
+
+const summary = (parsed: ReturnType<typeof parseMidiFile>) =>
+  parsed.notes.map(note => [note.pitch, note.position, note.duration, note.velocity, note.metadata])
+
+// A one-track Type 0 file around the given MTrk event bytes (end of track added)
+function rawFile(events: number[], ticksPerQuarter = 96): Uint8Array {
+  const body = [...events, 0x00, 0xff, 0x2f, 0x00]
+  return new Uint8Array([
+    0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 0, 0, 1, ticksPerQuarter >> 8, ticksPerQuarter & 0xff,
+    0x4d, 0x54, 0x72, 0x6b, 0, 0, body.length >> 8, body.length & 0xff, ...body
+  ])
+}
+
+describe('midi files', () => {
+  it('round-trips a Type 0 file', () => {
+    const parsed = parseMidiFile(writeMidiFile(notes, { format: 0, channel: 3, bpm: 90, ticksPerQuarter: 240 }))
+
+    expect(parsed).toMatchObject({ format: 0, trackCount: 1, ticksPerQuarter: 240, bpm: 90, timeSignatureNumerator: 4 })
+    expect(summary(parsed)).toEqual([
+      [60, 0, 1, 100, { channel: 3, track: 0 }],
+      [64, 0.5, 1.5, 90, { channel: 3, track: 0 }],
+      [60, 2, 0.25, 80, { channel: 3, track: 0 }]
+    ])
+  })
+
+  it('round-trips Type 1 tracks with their names, channels and timing changes', () => {
+    const parsed = parseMidiFile(writeMidiFileTracks([
+      { name: 'Lead', channel: 0, notes: notes.slice(0, 2) },
+      { name: 'Bäss', channel: 9, notes: notes.slice(2) }
+    ], {
+      bpm: 100,
+      timeSignatureNumerator: 6,
+      timeSignatureDenominator: 8,
+      tempoChanges: [{ position: 4, bpm: 140 }, { position: 10.5, bpm: 75.5 }],
+      meterChanges: [{ position: 6, timeSignature: 7, timeSignatureDenominator: 16 }]
+    }))
+
+    expect(parsed).toMatchObject({
+      format: 1,
+      trackCount: 3,
+      trackNames: ['', 'Lead', 'Bäss'],
+      bpm: 100,
+      timeSignatureNumerator: 6,
+      timeSignatureDenominator: 8,
+      tempoChanges: [{ position: 4, bpm: 140 }, { position: 10.5, bpm: 75.5 }],
+      meterChanges: [{ position: 6, timeSignature: 7, timeSignatureDenominator: 16 }]
+    })
+    expect(summary(parsed).map(([pitch, , , , metadata]) => [pitch, metadata])).toEqual([
+      [60, { channel: 0, track: 1 }],
+      [64, { channel: 0, track: 1 }],
+      [60, { channel: 9, track: 2 }]
+    ])
+  })
+
+  it('reads running status and note-ons with velocity 0 as note-offs', () => {
+    const parsed = parseMidiFile(rawFile([
+      0x00, 0x91, 60, 100,   // note on, channel 2
+      0x00, 64, 80,          // running status: another note on
+      0x60, 60, 0,           // velocity 0 ends the first note a quarter later
+      0x30, 64, 0
+    ]))
+
+    expect(summary(parsed)).toEqual([
+      [60, 0, 1, 100, { channel: 1, track: 0 }],
+      [64, 0, 1.5, 80, { channel: 1, track: 0 }]
+    ])
+    expect(parsed).toMatchObject({ bpm: 120, timeSignatureNumerator: 4, timeSignatureDenominator: 4 })
+  })
+
+  it('rejects files it cannot read', () => {
+    expect(() => parseMidiFile(new Uint8Array(8))).toThrow(MidiFileError)
+    expect(() => parseMidiFile(rawFile([0x00, 60, 100]))).toThrow('Running status without a previous status byte')
+    expect(() => parseMidiFile(writeMidiFile(notes).slice(0, 30))).toThrow(MidiFileError)
+  })
+
+  it('does not carry running status past meta and sysex events', () => {
+    const noteOn = [0x00, 0x90, 60, 100]
+    const marker = [0x00, 0xff, 0x06, 0x01, 0x41]  // "A"
+    const sysex = [0x00, 0xf0, 0x02, 0x7e, 0xf7]
+
+    expect(() => parseMidiFile(rawFile([...noteOn, ...marker, 0x00, 60, 0]))).toThrow('Running status without a previous status byte')
+    expect(() => parseMidiFile(rawFile([...noteOn, ...sysex, 0x00, 60, 0]))).toThrow('Running status without a previous status byte')
+    expect(summary(parseMidiFile(rawFile([...noteOn, ...marker, 0x60, 0x80, 60, 0])))).toEqual([[60, 0, 1, 100, { channel: 0, track: 0 }]])
+  })
+})
@@ -0,0 +1,409 @@
+import type { NoteDataInput } from './pianoRollState'
+import type { MeterChange, TempoChange } from './pianoRollTiming'
+
+// Standard MIDI File (SMF) reading/writing for Type 0 and Type 1 files.
+// Positions and durations are converted between ticks and quarter notes using
+// the file's ticks-per-quarter division.
+
+export const DEFAULT_TICKS_PER_QUARTER = 480
+export const DEFAULT_BPM = 120
+
+export interface MidiFileTiming {
+  bpm: number  // at the start of the file
+  timeSignatureNumerator: number
+  timeSignatureDenominator: number
+  ticksPerQuarter: number
+  // Later tempo and time signature events, in quarter notes
+  tempoChanges: TempoChange[]
+  meterChanges: MeterChange[]
+}
+
+export interface MidiFileData extends MidiFileTiming {
+  format: 0 | 1
+  trackCount: number
+  trackNames: string[]  // indexed by file track; empty string if unnamed
+  notes: NoteDataInput[]  // metadata.track / metadata.channel record the source
+}
+
+export interface MidiFileTrack {
+  name?: string
+  channel: number
+  notes: NoteDataInput[]
+}
+
+export interface MidiFileWriteOptions extends Partial<MidiFileTiming> {
+  format?: 0 | 1
+  channel?: number
+}
+
+export class MidiFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MidiFileError'
+  }
+}
+
+// ================= Reading =================
+
+class ByteReader {
+  offset = 0
+
+  constructor(private readonly bytes: Uint8Array, start = 0, private readonly end = bytes.length) {
+    this.offset = start
+  }
+
+  get done() {
+    return this.offset >= this.end
+  }
+
+  uint8(): number {
+    if (this.offset >= this.end) throw new MidiFileError('Unexpected end of MIDI data')
+    return this.bytes[this.offset++]!
+  }
+
+  uint16(): number {
+    return (this.uint8() << 8) | this.uint8()
+  }
+
+  uint32(): number {
+    return ((this.uint8() << 24) >>> 0) + (this.uint8() << 16) + (this.uint8() << 8) + this.uint8()
+  }
+
+  ascii(length: number): string {
+    let text = ''
+    for (let i = 0; i < length; i++) text += String.fromCharCode(this.uint8())
+    return text
+  }
+
+  // Variable-length quantity (7 bits per byte, high bit = continuation)
+  varInt(): number {
+    let value = 0
+    for (let i = 0; i < 4; i++) {
+      const byte = this.uint8()
+      value = (value << 7) | (byte & 0x7f)
+      if ((byte & 0x80) === 0) return value
+    }
+    throw new MidiFileError('Invalid variable-length quantity')
+  }
+
+  skip(length: number) {
+    if (this.offset + length > this.end) throw new MidiFileError('Unexpected end of MIDI data')
+    this.offset += length
+  }
+}
+
+interface OpenNote {
+  tick: number
+  velocity: number
+}
+
+export function parseMidiFile(data: ArrayBuffer | Uint8Array): MidiFileData {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+  const reader = new ByteReader(bytes)
+
+  if (reader.ascii(4) !== 'MThd') throw new MidiFileError('Not a Standard MIDI File (missing MThd header)')
+  const headerLength = reader.uint32()
+  const headerStart = reader.offset
+  const format = reader.uint16()
+  const trackCount = reader.uint16()
+  const division = reader.uint16()
+  reader.offset = headerStart + headerLength
+
+  if (format !== 0 && format !== 1) throw new MidiFileError(`Unsupported MIDI file format ${format}`)
+  if (division & 0x8000) throw new MidiFileError('SMPTE time division is not supported')
+
+  const ticksPerQuarter = division || DEFAULT_TICKS_PER_QUARTER
+  // Keyed by tick; a later event at the same tick replaces an earlier one
+  const tempos = new Map<number, number>()
+  const timeSignatures = new Map<number, { numerator: number, denominator: number }>()
+  const notes: NoteDataInput[] = []
+  const trackNames: string[] = []
+
+  for (let track = 0; track < trackCount && !reader.done; track++) {
+    const chunkType = reader.ascii(4)
+    const chunkLength = reader.uint32()
+    const chunkEnd = reader.offset + chunkLength
+    if (chunkType !== 'MTrk') {
+      reader.skip(chunkLength)
+      track--
+      continue
+    }
+
+    const trackReader = new ByteReader(bytes, reader.offset, Math.min(chunkEnd, bytes.length))
+    const openNotes = new Map<string, OpenNote[]>()
+    let tick = 0
+    let runningStatus = 0
+    trackNames[track] = ''
+
+    const closeNote = (channel: number, pitch: number) => {
+      const key = `${channel}:${pitch}`
+      const open = openNotes.get(key)?.shift()
+      if (!open) return
+      notes.push({
+        pitch,
+        position: open.tick / ticksPerQuarter,
+        duration: (tick - open.tick) / ticksPerQuarter,
+        velocity: open.velocity,
+        metadata: { channel, track }
+      })
+    }
+
+    while (!trackReader.done) {
+      tick += trackReader.varInt()
+
+      let status = trackReader.uint8()
+      if (status < 0x80) {
+        // Running status: reuse the previous channel status, this byte is data
+        if (!runningStatus) throw new MidiFileError('Running status without a previous status byte')
+        trackReader.offset--
+        status = runningStatus
+      }
+
+      // Meta and sysex events cancel running status
+      if (status === 0xff) {
+        runningStatus = 0
+        const metaType = trackReader.uint8()
+        const length = trackReader.varInt()
+        const metaStart = trackReader.offset
+        if (metaType === 0x51 && length === 3) {
+          tempos.set(tick, (trackReader.uint8() << 16) | (trackReader.uint8() << 8) | trackReader.uint8())
+        } else if (metaType === 0x58 && length >= 2) {
+          const numerator = trackReader.uint8()
+          const denominator = 2 ** trackReader.uint8()
+          timeSignatures.set(tick, { numerator, denominator })
+        } else if (metaType === 0x03) {
+          trackNames[track] = new TextDecoder().decode(bytes.subarray(metaStart, metaStart + length))
+        } else if (metaType === 0x2f) {
+          break
+        }
+        trackReader.offset = metaStart
+        trackReader.skip(length)
+        continue
+      }
+
+      if (status === 0xf0 || status === 0xf7) {
+        runningStatus = 0
+        trackReader.skip(trackReader.varInt())
+        continue
+      }
+
+      runningStatus = status
+      const type = status & 0xf0
+      const channel = status & 0x0f
+
+      if (type === 0x90 || type === 0x80) {
+        const pitch = trackReader.uint8()
+        const velocity = trackReader.uint8()
+        if (type === 0x90 && velocity > 0) {
+          const key = `${channel}:${pitch}`
+          const queue = openNotes.get(key) ?? []
+          queue.push({ tick, velocity })
+          openNotes.set(key, queue)
+        } else {
+          // Note off, or note on with velocity 0
+          closeNote(channel, pitch)
+        }
+      } else if (type === 0xc0 || type === 0xd0) {
+        trackReader.skip(1)
+      } else {
+        trackReader.skip(2)
+      }
+    }
+
+    // Close anything left hanging at the end of the track
+    openNotes.forEach((queue, key) => {
+      const [channel, pitch] = key.split(':').map(Number)
+      while (queue.length > 0) closeNote(channel!, pitch!)
+    })
+
+    reader.offset = chunkEnd
+  }
+
+  notes.sort((a, b) => a.position - b.position || a.pitch - b.pitch)
+
+  // Before the first tempo / time signature event MIDI assumes 120 BPM and 4/4
+  const toBpm = (microsecondsPerQuarter: number) => Math.round(60_000_000_000 / microsecondsPerQuarter) / 1000
+  const startTempo = tempos.get(0)
+  const startTimeSignature = timeSignatures.get(0)
+  const later = <T>(events: Map<number, T>) => Array.from(events.entries())
+    .filter(([tick]) => tick > 0)
+    .sort(([a], [b]) => a - b)
+
+  return {
+    format: format as 0 | 1,
+    trackCount,
+    trackNames,
+    ticksPerQuarter,
+    bpm: startTempo ? toBpm(startTempo) : DEFAULT_BPM,
+    timeSignatureNumerator: startTimeSignature?.numerator ?? 4,
+    timeSignatureDenominator: startTimeSignature?.denominator ?? 4,
+    tempoChanges: later(tempos).map(([tick, tempo]) => ({ position: tick / ticksPerQuarter, bpm: toBpm(tempo) })),
+    meterChanges: later(timeSignatures).map(([tick, meter]) => ({
+      position: tick / ticksPerQuarter,
+      timeSignature: meter.numerator,
+      timeSignatureDenominator: meter.denominator
+    })),
+    notes: notes.filter(note => note.duration > 0)
+  }
+}
+
+// ================= Writing =================
+
+class ByteWriter {
+  private bytes: number[] = []
+
+  uint8(value: number) {
+    this.bytes.push(value & 0xff)
+  }
+
+  uint16(value: number) {
+    this.uint8(value >> 8)
+    this.uint8(value)
+  }
+
+  uint32(value: number) {
+    this.uint8(value >>> 24)
+    this.uint8(value >> 16)
+    this.uint8(value >> 8)
+    this.uint8(value)
+  }
+
+  ascii(text: string) {
+    for (let i = 0; i < text.length; i++) this.uint8(text.charCodeAt(i))
+  }
+
+  varInt(value: number) {
+    const groups = [value & 0x7f]
+    while ((value >>>= 7) > 0) {
+      groups.unshift((value & 0x7f) | 0x80)
+    }
+    groups.forEach(group => this.uint8(group))
+  }
+
+  append(other: ByteWriter) {
+    for (const byte of other.bytes) this.bytes.push(byte)
+  }
+
+  get length() {
+    return this.bytes.length
+  }
+
+  toUint8Array() {
+    return new Uint8Array(this.bytes)
+  }
+}
+
+interface TrackEvent {
+  tick: number
+  // Lower sorts first at the same tick: meta, then note-offs, then note-ons
+  order: number
+  data: number[]
+}
+
+function writeTrack(out: ByteWriter, events: TrackEvent[]) {
+  const body = new ByteWriter()
+  events.sort((a, b) => a.tick - b.tick || a.order - b.order)
+
+  let lastTick = 0
+  events.forEach(event => {
+    body.varInt(event.tick - lastTick)
+    event.data.forEach(byte => body.uint8(byte))
+    lastTick = event.tick
+  })
+
+  // End of track
+  body.varInt(0)
+  body.uint8(0xff)
+  body.uint8(0x2f)
+  body.uint8(0x00)
+
+  out.ascii('MTrk')
+  out.uint32(body.length)
+  out.append(body)
+}
+
+function tempoEvent(tick: number, bpm: number): TrackEvent {
+  const microsecondsPerQuarter = Math.round(60_000_000 / bpm)
+  return {
+    tick,
+    order: 0,
+    data: [0xff, 0x51, 0x03, (microsecondsPerQuarter >> 16) & 0xff, (microsecondsPerQuarter >> 8) & 0xff, microsecondsPerQuarter & 0xff]
+  }
+}
+
+function timeSignatureEvent(tick: number, numerator: number, denominator: number): TrackEvent {
+  const denominatorPower = Math.max(0, Math.round(Math.log2(denominator)))
+  return { tick, order: 0, data: [0xff, 0x58, 0x04, numerator, denominatorPower, 24, 8] }
+}
+
+function timingEvents(timing: MidiFileTiming): TrackEvent[] {
+  const toTick = (position: number) => Math.max(0, Math.round(position * timing.ticksPerQuarter))
+  return [
+    tempoEvent(0, timing.bpm),
+    timeSignatureEvent(0, timing.timeSignatureNumerator, timing.timeSignatureDenominator),
+    ...timing.tempoChanges.map(change => tempoEvent(toTick(change.position), change.bpm)),
+    ...timing.meterChanges.map(change => timeSignatureEvent(toTick(change.position), change.timeSignature, change.timeSignatureDenominator))
+  ]
+}
+
+function noteEvents(notes: NoteDataInput[], ticksPerQuarter: number, channel: number): TrackEvent[] {
+  const events: TrackEvent[] = []
+
+  notes.forEach(note => {
+    const pitch = Math.max(0, Math.min(127, Math.round(note.pitch)))
+    const velocity = Math.max(1, Math.min(127, Math.round(note.velocity ?? 100)))
+    const start = Math.max(0, Math.round(note.position * ticksPerQuarter))
+    const end = Math.max(start + 1, Math.round((note.position + note.duration) * ticksPerQuarter))
+
+    events.push({ tick: start, order: 2, data: [0x90 | channel, pitch, velocity] })
+    events.push({ tick: end, order: 1, data: [0x80 | channel, pitch, 0] })
+  })
+
+  return events
+}
+
+function trackNameEvent(name: string): TrackEvent {
+  const bytes = Array.from(new TextEncoder().encode(name))
+  const length = new ByteWriter()
+  length.varInt(bytes.length)
+  return { tick: 0, order: 0, data: [0xff, 0x03, ...length.toUint8Array(), ...bytes] }
+}
+
+export function writeMidiFile(notes: NoteDataInput[], options: MidiFileWriteOptions = {}): Uint8Array {
+  return writeMidiFileTracks([{ channel: options.channel ?? 0, notes }], options)
+}
+
+// Type 1 writes one MTrk per track after a conductor track; Type 0 merges everything into one
+export function writeMidiFileTracks(tracks: MidiFileTrack[], options: MidiFileWriteOptions = {}): Uint8Array {
+  const timing: MidiFileTiming = {
+    bpm: options.bpm ?? DEFAULT_BPM,
+    timeSignatureNumerator: options.timeSignatureNumerator ?? 4,
+    timeSignatureDenominator: options.timeSignatureDenominator ?? 4,
+    ticksPerQuarter: options.ticksPerQuarter ?? DEFAULT_TICKS_PER_QUARTER,
+    tempoChanges: options.tempoChanges ?? [],
+    meterChanges: options.meterChanges ?? []
+  }
+  const format = options.format ?? 1
+
+  const trackEvents = tracks.map(track => {
+    const channel = Math.max(0, Math.min(15, Math.round(track.channel)))
+    const events = noteEvents(track.notes, timing.ticksPerQuarter, channel)
+    return track.name && format === 1 ? [trackNameEvent(track.name), ...events] : events
+  })
+
+  const out = new ByteWriter()
+  out.ascii('MThd')
+  out.uint32(6)
+  out.uint16(format)
+  out.uint16(format === 0 ? 1 : trackEvents.length + 1)
+  out.uint16(timing.ticksPerQuarter)
+
+  if (format === 0) {
+    writeTrack(out, [...timingEvents(timing), ...trackEvents.flat()])
+  } else {
+    writeTrack(out, timingEvents(timing))
+    trackEvents.forEach(events => writeTrack(out, events))
+  }
+
+  return out.toUint8Array()
+}
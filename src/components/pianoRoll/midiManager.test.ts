@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest'
+
+// A MIDIValInput that remembers its note-on listener, so tests can play notes
+// on a given device
+const { listeners, access } = vi.hoisted(() => ({
+  listeners: new Map<string, Set<(message: any) => void>>(),
+  access: {
+    inputs: [{ id: 'a', name: 'Keys A' }, { id: 'b', name: 'Keys B' }],
+    outputs: [] as any[]
+  }
+}))
+
+vi.mock('@midival/core', () => {
+  const noop = () => () => {}
+  class MIDIValInput {
+    constructor(private device: { id: string }) {}
+    onAllNoteOn(listener: (message: any) => void) {
+      const set = listeners.get(this.device.id) ?? new Set()
+      set.add(listener)
+      listeners.set(this.device.id, set)
+      return () => set.delete(listener)
+    }
+    onAllNoteOff = noop
+    onClockPulse = noop
+    onStart = noop
+    onContinue = noop
+    onStop = noop
+    onSongPositionPointer = noop
+  }
+  return { MIDIVal: { connect: async () => access }, MIDIValInput }
+})
+
+import { MIDIManager } from './midiManager'
+import { LOOPBACK_DEVICE_ID } from './midiOutputs'
+
+const play = (deviceId: string, note: number) =>
+  listeners.get(deviceId)?.forEach(listener => listener({ note, velocity: 100 }))
+
+describe('MIDIManager input', () => {
+  it('listens only to the input selected last', async () => {
+    const manager = new MIDIManager()
+    await manager.initialize()
+    const noteOn = vi.fn()
+    manager.setInputHandlers({ noteOn, noteOff: vi.fn() })
+
+    manager.selectInput('a')
+    manager.selectInput('b')
+    play('a', 60)
+    play('b', 62)
+
+    expect(noteOn.mock.calls).toEqual([[62, 100]])
+
+    manager.selectInput(null)
+    play('b', 64)
+    expect(noteOn).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('MIDIManager output', () => {
+  it('scales 0-1 note velocities to 1-127 however quiet', async () => {
+    const manager = new MIDIManager()
+    await manager.initialize()
+    manager.selectDevice(LOOPBACK_DEVICE_ID)
+    manager.setEnabled(true)
+
+    manager.sendNoteOn(60, 1 / 127)
+    manager.sendNoteOn(61, 0.5)
+    manager.sendNoteOn(62, 1)
+    manager.sendNoteOn(63, 0)
+
+    expect(manager.getLoopbackLog().map(message => message.data[2])).toEqual([1, 64, 127, 1])
+  })
+})
@@ -1,93 +1,280 @@
-import { MIDIVal, MIDIValOutput } from '@midival/core'
+import { MIDIVal, MIDIValInput } from '@midival/core'
+import {
+  createLoopbackPort,
+  LOOPBACK_DEVICE_ID,
+  LOOPBACK_DEVICE_NAME,
+  MIDIOutputRouter,
+  type LoggedMIDIMessage,
+  type MIDIOutputPort,
+  type MIDIOutputRoute
+} from './midiOutputs'
+import { CLOCK, CONTINUE, parseSongPosition, songPositionMessage, START, STOP } from './midiClock'
 
 export interface MIDIDevice {
   id: string
   name: string
 }
 
+// Notes played on the selected input device; velocity is 1-127
+export interface MIDIInputHandlers {
+  noteOn: (pitch: number, velocity: number) => void
+  noteOff: (pitch: number) => void
+}
+
+// Clock and transport messages from the selected input device
+export interface MIDIClockHandlers {
+  clock: () => void
+  start: () => void
+  continue: () => void
+  stop: () => void
+  songPosition: (position: number) => void  // quarter notes
+}
+
+// Devices are looked up again whenever one is plugged in or removed. Selected
+// inputs and output routes are kept by id, so a device that comes back is used
+// again. Timestamps are performance.now() milliseconds, as Web MIDI expects.
 export class MIDIManager {
-  private midiOutput: MIDIValOutput | null = null
+  private router = new MIDIOutputRouter()
+  private loopback = createLoopbackPort()
   private availableOutputs: MIDIDevice[] = []
-  private selectedDeviceId: string | null = null
   private midiEnabled: boolean = false
   private midiAccess: any = null
+  private midiInput: MIDIValInput | null = null
+  private boundInputId: string | null = null  // device midiInput listens to
+  private availableInputs: MIDIDevice[] = []
+  private selectedInputId: string | null = null
+  private inputHandlers: MIDIInputHandlers | null = null
+  private clockHandlers: MIDIClockHandlers | null = null
+  private unregisterInput: Array<() => void> = []
+  private unregisterDeviceEvents: Array<() => void> = []
+  private changeListeners = new Set<() => void>()
 
   async initialize(): Promise<void> {
     try {
       this.midiAccess = await MIDIVal.connect()
       this.updateAvailableDevices()
+
+      // Route to the first hardware output until told otherwise
+      const firstDevice = this.availableOutputs.find(device => device.id !== LOOPBACK_DEVICE_ID)
+      if (this.router.getRoutes().length === 0 && firstDevice) {
+        this.selectDevice(firstDevice.id)
+      }
+
+      const refresh = () => this.updateAvailableDevices()
+      this.unregisterDeviceEvents = [
+        this.midiAccess.onInputConnected?.(refresh),
+        this.midiAccess.onInputDisconnected?.(refresh),
+        this.midiAccess.onOutputConnected?.(refresh),
+        this.midiAccess.onOutputDisconnected?.(refresh)
+      ].filter((unregister): unregister is () => void => typeof unregister === 'function')
     } catch (error) {
       console.error('Failed to initialize MIDI:', error)
       throw error
     }
   }
 
+  // Called on every device change, selection change and enable/disable
+  onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener)
+    return () => this.changeListeners.delete(listener)
+  }
+
+  private notifyChange(): void {
+    this.changeListeners.forEach(listener => listener())
+  }
+
   private updateAvailableDevices(): void {
-    if (!this.midiAccess?.outputs) return
+    const toDevice = (port: any): MIDIDevice => ({
+      id: port?.id || '',
+      name: port?.name || 'Unknown Device'
+    })
+    this.availableInputs = Array.from(this.midiAccess?.inputs ?? []).map(toDevice)
+    this.availableOutputs = [
+      ...Array.from(this.midiAccess?.outputs ?? []).map(toDevice),
+      { id: LOOPBACK_DEVICE_ID, name: LOOPBACK_DEVICE_NAME }
+    ]
 
-    this.availableOutputs = Array.from(this.midiAccess.outputs).map((output: any) => ({
-      id: output?.id || '',
-      name: output?.name || 'Unknown Device'
-    }))
+    this.router.refreshPorts(deviceId => this.findOutputPort(deviceId))
+    this.bindInput()
+    this.notifyChange()
+  }
 
-    // If no device is selected and devices are available, select the first one
-    const firstDevice = this.availableOutputs[0]
-    if (!this.selectedDeviceId && firstDevice) {
-      this.selectDevice(firstDevice.id)
-    }
+  private findOutputPort(deviceId: string): MIDIOutputPort | null {
+    if (deviceId === LOOPBACK_DEVICE_ID) return this.loopback
+    const port = Array.from(this.midiAccess?.outputs ?? []).find((output: any) => output?.id === deviceId)
+    return (port as MIDIOutputPort | undefined) ?? null
   }
 
   getAvailableDevices(): MIDIDevice[] {
     return this.availableOutputs
   }
 
-  selectDevice(deviceId: string): void {
-    if (!this.midiAccess?.outputs) return
+  // ===== Output routing =====
 
-    const device = Array.from(this.midiAccess.outputs).find((output: any) => output?.id === deviceId)
-    if (device) {
-      this.selectedDeviceId = deviceId
-      this.midiOutput = new MIDIValOutput(device as any)
-    }
+  // Sends to this one output only, on the notes' own channels
+  selectDevice(deviceId: string): void {
+    this.setOutputRoutes([{ deviceId }])
   }
 
+  // The first routed output, if any
   getSelectedDeviceId(): string | null {
-    return this.selectedDeviceId
+    return this.router.getRoutes()[0]?.deviceId ?? null
+  }
+
+  // Sends to every listed output at once, including ones not plugged in yet
+  setOutputRoutes(routes: MIDIOutputRoute[]): void {
+    this.router.setRoutes(routes, deviceId => this.findOutputPort(deviceId))
+    this.notifyChange()
+  }
+
+  getOutputRoutes(): MIDIOutputRoute[] {
+    return this.router.getRoutes()
+  }
+
+  getLoopbackLog(): LoggedMIDIMessage[] {
+    return this.loopback.getLog()
+  }
+
+  clearLoopbackLog(): void {
+    this.loopback.clearLog()
+  }
+
+  onLoopbackMessage(listener: (message: LoggedMIDIMessage) => void): () => void {
+    return this.loopback.onMessage(listener)
+  }
+
+  // ===== Input =====
+
+  getAvailableInputs(): MIDIDevice[] {
+    return this.availableInputs
+  }
+
+  getSelectedInputId(): string | null {
+    return this.selectedInputId
   }
 
+  // Listen to one input device at a time; null stops listening
+  selectInput(deviceId: string | null): void {
+    this.selectedInputId = deviceId
+    this.bindInput()
+    this.notifyChange()
+  }
+
+  // Listens to the selected input if it is plugged in
+  private bindInput(): void {
+    const device = this.selectedInputId && Array.from(this.midiAccess?.inputs ?? []).find((input: any) => input?.id === this.selectedInputId)
+    if (device && this.midiInput && this.boundInputId === this.selectedInputId) return
+
+    this.unregisterInput.forEach(unregister => unregister())
+    this.unregisterInput = []
+    this.midiInput = null
+    this.boundInputId = null
+    if (!device) return
+
+    this.midiInput = new MIDIValInput(device as any)
+    this.boundInputId = this.selectedInputId
+    this.unregisterInput = [
+      // Many controllers send note on with velocity 0 instead of note off
+      this.midiInput.onAllNoteOn((message: any) => {
+        if (message.velocity > 0) {
+          this.inputHandlers?.noteOn(message.note, message.velocity)
+        } else {
+          this.inputHandlers?.noteOff(message.note)
+        }
+      }),
+      this.midiInput.onAllNoteOff((message: any) => {
+        this.inputHandlers?.noteOff(message.note)
+      }),
+      this.midiInput.onClockPulse(() => this.clockHandlers?.clock()),
+      this.midiInput.onStart(() => this.clockHandlers?.start()),
+      this.midiInput.onContinue(() => this.clockHandlers?.continue()),
+      this.midiInput.onStop(() => this.clockHandlers?.stop()),
+      this.midiInput.onSongPositionPointer((message: any) => {
+        this.clockHandlers?.songPosition(parseSongPosition(message.data1, message.data2))
+      })
+    ]
+  }
+
+  setInputHandlers(handlers: MIDIInputHandlers | null): void {
+    this.inputHandlers = handlers
+  }
+
+  setClockHandlers(handlers: MIDIClockHandlers | null): void {
+    this.clockHandlers = handlers
+  }
+
+  // ===== Sending =====
+
   setEnabled(enabled: boolean): void {
+    if (!enabled) this.allNotesOff()
     this.midiEnabled = enabled
+    this.notifyChange()
   }
 
   isEnabled(): boolean {
     return this.midiEnabled
   }
 
-  sendNoteOn(pitch: number, velocity: number, channel: number = 0): void {
-    if (!this.midiEnabled || !this.midiOutput) return
+  // Delays every timestamped message, to line MIDI gear up with the audio
+  setLatency(ms: number): void {
+    this.router.setLatency(ms)
+  }
 
-    try {
-      // Convert velocity from 0-1 range to 0-127 MIDI range if needed
-      const midiVelocity = velocity <= 1 ? Math.round(velocity * 127) : velocity
-      this.midiOutput.sendNoteOn(pitch, Math.max(1, Math.min(127, midiVelocity)), channel)
-    } catch (error) {
-      console.error('Failed to send MIDI note on:', error)
-    }
+  getLatency(): number {
+    return this.router.getLatency()
   }
 
-  sendNoteOff(pitch: number, channel: number = 0): void {
-    if (!this.midiEnabled || !this.midiOutput) return
+  // Velocity is 0-1, as the synths take it, and goes out as 1-127
+  sendNoteOn(pitch: number, velocity: number, channel: number = 0, timestamp?: number): void {
+    if (!this.midiEnabled) return
 
-    try {
-      this.midiOutput.sendNoteOff(pitch, channel)
-    } catch (error) {
-      console.error('Failed to send MIDI note off:', error)
+    this.router.noteOn(pitch, Math.max(1, Math.min(127, Math.round(velocity * 127))), channel, timestamp)
+  }
+
+  // Only the last of overlapping notes on a channel and pitch sends a note off
+  sendNoteOff(pitch: number, channel: number = 0, timestamp?: number): void {
+    this.router.noteOff(pitch, channel, timestamp)
+  }
+
+  // ===== Clock and transport out =====
+
+  sendClock(timestamp?: number): void {
+    if (this.midiEnabled) this.router.sendToAll([CLOCK], timestamp)
+  }
+
+  // Start plays from the top; elsewhere the position goes first, then Continue
+  sendStart(position: number, timestamp?: number): void {
+    if (!this.midiEnabled) return
+    if (position > 0) {
+      this.router.sendToAll(songPositionMessage(position), timestamp)
+      this.router.sendToAll([CONTINUE], timestamp)
+    } else {
+      this.router.sendToAll([START], timestamp)
     }
   }
 
+  sendStop(timestamp?: number): void {
+    if (this.midiEnabled) this.router.sendToAll([STOP], timestamp)
+  }
+
+  // Note offs for everything this manager has started
+  allNotesOff(): void {
+    this.router.allNotesOff()
+  }
+
+  // All Notes Off and All Sound Off on every channel of every routed output
+  panic(): void {
+    this.router.panic()
+  }
+
   disconnect(): void {
-    // MIDIValOutput doesn't have a disconnect method in the current version
-    // Just clear the reference
-    this.midiOutput = null
+    this.allNotesOff()
+    this.unregisterDeviceEvents.forEach(unregister => unregister())
+    this.unregisterDeviceEvents = []
+    this.router.setRoutes([], () => null)
+    this.selectInput(null)
+    this.inputHandlers = null
+    this.clockHandlers = null
+    this.changeListeners.clear()
   }
 }
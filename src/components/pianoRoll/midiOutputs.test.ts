@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createLoopbackPort, MIDIOutputRouter, type MIDIOutputPort } from './midiOutputs'
+
+function createPorts(...ids: string[]) {
+  const ports = new Map(ids.map(id => [id, createLoopbackPort()]))
+  const findPort = (id: string): MIDIOutputPort | null => ports.get(id) ?? null
+  const sent = (id: string) => ports.get(id)!.getLog().map(message => message.data)
+  return { ports, findPort, sent }
+}
+
+describe('MIDIOutputRouter', () => {
+  it('sends to every routed output on its mapped channel', () => {
+    const { findPort, sent } = createPorts('a', 'b')
+    const router = new MIDIOutputRouter()
+    router.setRoutes([{ deviceId: 'a' }, { deviceId: 'b', channelMap: { 0: 9 } }], findPort)
+
+    router.noteOn(60, 100, 0)
+    router.noteOn(62, 100, 1)
+    router.noteOff(60, 0)
+
+    expect(sent('a')).toEqual([[0x90, 60, 100], [0x91, 62, 100], [0x80, 60, 0]])
+    expect(sent('b')).toEqual([[0x99, 60, 100], [0x91, 62, 100], [0x89, 60, 0]])
+  })
+
+  it('offsets timestamps by the latency and never ends a note before it starts', () => {
+    const { ports, findPort } = createPorts('a')
+    const router = new MIDIOutputRouter()
+    router.setRoutes([{ deviceId: 'a' }], findPort)
+    router.setLatency(20)
+
+    router.noteOn(60, 100, 0, 1000)
+    router.noteOn(60, 90, 0, 1500)
+    router.noteOff(60, 0, 1200)
+    router.noteOff(60, 0, 1300)
+
+    expect(ports.get('a')!.getLog()).toEqual([
+      { data: [0x90, 60, 100], timestamp: 1020 },
+      { data: [0x90, 60, 90], timestamp: 1520 },
+      { data: [0x80, 60, 0], timestamp: 1520 }
+    ])
+  })
+
+  it('keeps routes to unplugged devices and uses them again when they return', () => {
+    const { findPort, sent } = createPorts('a')
+    const router = new MIDIOutputRouter()
+    router.setRoutes([{ deviceId: 'a' }], findPort)
+    router.noteOn(60, 100, 0)
+
+    router.refreshPorts(() => null)
+    expect(router.hasConnectedOutput()).toBe(false)
+    expect(router.getRoutes()).toEqual([{ deviceId: 'a' }])
+
+    router.refreshPorts(findPort)
+    router.noteOff(60, 0)
+    router.noteOn(64, 100, 0)
+    expect(sent('a')).toEqual([[0x90, 60, 100], [0x90, 64, 100]])
+  })
+
+  it('ends notes on outputs that are dropped or remapped', () => {
+    const { findPort, sent } = createPorts('a', 'b')
+    const router = new MIDIOutputRouter()
+    router.setRoutes([{ deviceId: 'a' }, { deviceId: 'b' }], findPort)
+    router.noteOn(60, 100, 2)
+
+    router.setRoutes([{ deviceId: 'a', channelMap: { 2: 5 } }], findPort)
+    expect(sent('a')).toEqual([[0x92, 60, 100], [0x82, 60, 0]])
+    expect(sent('b')).toEqual([[0x92, 60, 100], [0x82, 60, 0]])
+  })
+
+  it('panics after everything already scheduled', () => {
+    vi.spyOn(performance, 'now').mockReturnValue(100)
+    const { ports, findPort } = createPorts('a')
+    const router = new MIDIOutputRouter()
+    router.setRoutes([{ deviceId: 'a' }], findPort)
+    router.noteOn(60, 100, 0, 400)
+
+    router.panic()
+    const log = ports.get('a')!.getLog()
+    expect(log[1]).toEqual({ data: [0x80, 60, 0], timestamp: 400 })
+    expect(log.slice(2)).toHaveLength(48)
+    expect(log.slice(2).every(message => message.timestamp === 400 && (message.data[0]! & 0xF0) === 0xB0)).toBe(true)
+    vi.restoreAllMocks()
+  })
+})
@@ -0,0 +1,176 @@
+import { createVoiceTracker } from './midiVoices'
+
+// Sends note messages to several MIDI outputs at once. Each output has its own
+// channel mapping and voice counts. Routes are kept by device id while their
+// device is unplugged and pick it up again when it comes back.
+// Timestamps are performance.now() milliseconds, as Web MIDI expects; the
+// latency offset is added to them. Without a timestamp a message goes out now.
+
+// Anything that takes raw MIDI bytes like a Web MIDI output
+export interface MIDIOutputPort {
+  send(data: number[], timestamp?: number): void
+}
+
+export interface MIDIOutputRoute {
+  deviceId: string
+  channelMap?: Record<number, number>  // note channel → channel sent; unmapped channels pass through
+}
+
+export interface LoggedMIDIMessage {
+  data: number[]
+  timestamp: number
+}
+
+export const LOOPBACK_DEVICE_ID = 'loopback'
+export const LOOPBACK_DEVICE_NAME = 'Loopback (log)'
+const LOOPBACK_LOG_LIMIT = 500
+
+// An output that keeps what it is sent instead of playing it, for trying the
+// routing without hardware
+export function createLoopbackPort() {
+  const log: LoggedMIDIMessage[] = []
+  const listeners = new Set<(message: LoggedMIDIMessage) => void>()
+
+  return {
+    send(data: number[], timestamp?: number) {
+      const message = { data: [...data], timestamp: timestamp ?? performance.now() }
+      log.push(message)
+      if (log.length > LOOPBACK_LOG_LIMIT) log.shift()
+      listeners.forEach(listener => listener(message))
+    },
+    getLog: (): LoggedMIDIMessage[] => log.slice(),
+    clearLog: () => { log.length = 0 },
+    onMessage(listener: (message: LoggedMIDIMessage) => void): () => void {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    }
+  }
+}
+
+interface Output {
+  route: MIDIOutputRoute
+  port: MIDIOutputPort | null  // null while the device is unplugged
+  voices: ReturnType<typeof createVoiceTracker>
+}
+
+export class MIDIOutputRouter {
+  private outputs: Output[] = []
+  private latencyMs = 0
+  private lastTimestamp = 0
+
+  getRoutes(): MIDIOutputRoute[] {
+    return this.outputs.map(output => ({ ...output.route }))
+  }
+
+  // Outputs dropped from the list get their notes ended first
+  setRoutes(routes: MIDIOutputRoute[], findPort: (deviceId: string) => MIDIOutputPort | null): void {
+    const ids = new Set(routes.map(route => route.deviceId))
+    this.outputs.filter(output => !ids.has(output.route.deviceId)).forEach(output => this.releaseVoices(output))
+
+    this.outputs = routes.map(route => {
+      const existing = this.outputs.find(output => output.route.deviceId === route.deviceId)
+      // A new channel map would send note offs on other channels
+      if (existing && JSON.stringify(existing.route.channelMap) !== JSON.stringify(route.channelMap)) {
+        this.releaseVoices(existing)
+      }
+      return {
+        route: { ...route },
+        port: existing?.port ?? findPort(route.deviceId),
+        voices: existing?.voices ?? createVoiceTracker()
+      }
+    })
+  }
+
+  // Re-binds every route after the device list changed. Notes on a device
+  // that went away are forgotten, since nothing can reach it.
+  refreshPorts(findPort: (deviceId: string) => MIDIOutputPort | null): void {
+    this.outputs.forEach(output => {
+      const port = findPort(output.route.deviceId)
+      if (port === output.port) return
+      if (!port) output.voices.releaseAll()
+      output.port = port
+    })
+  }
+
+  hasConnectedOutput(): boolean {
+    return this.outputs.some(output => output.port !== null)
+  }
+
+  setLatency(ms: number): void {
+    this.latencyMs = Number.isFinite(ms) ? ms : 0
+  }
+
+  getLatency(): number {
+    return this.latencyMs
+  }
+
+  noteOn(pitch: number, velocity: number, channel: number, timestamp?: number): void {
+    const at = timestamp === undefined ? undefined : timestamp + this.latencyMs
+    this.outputs.forEach(output => {
+      const mapped = this.mapChannel(output, channel)
+      if (this.send(output, [0x90 | mapped, pitch, velocity], at)) {
+        output.voices.noteOn(mapped, pitch, at ?? performance.now())
+      }
+    })
+  }
+
+  // Only the last of overlapping notes on a channel and pitch sends a note
+  // off, and never ahead of the note on it ends
+  noteOff(pitch: number, channel: number, timestamp?: number): void {
+    this.outputs.forEach(output => {
+      const mapped = this.mapChannel(output, channel)
+      const voice = output.voices.noteOff(mapped, pitch)
+      if (!voice) return
+      const at = timestamp === undefined ? performance.now() : timestamp + this.latencyMs
+      this.send(output, [0x80 | mapped, pitch, 0], Math.max(at, voice.lastOn))
+    })
+  }
+
+  // Channel-less messages such as clock and transport go to every output as is
+  sendToAll(data: number[], timestamp?: number): void {
+    const at = timestamp === undefined ? undefined : timestamp + this.latencyMs
+    this.outputs.forEach(output => this.send(output, data, at))
+  }
+
+  // Note offs for everything this router has started
+  allNotesOff(): void {
+    this.outputs.forEach(output => this.releaseVoices(output))
+  }
+
+  // All Notes Off and All Sound Off on every channel of every output, after
+  // anything already scheduled, for notes stuck on a device whoever started them
+  panic(): void {
+    this.allNotesOff()
+    const at = Math.max(performance.now(), this.lastTimestamp)
+    this.outputs.forEach(output => {
+      for (let channel = 0; channel < 16; channel++) {
+        this.send(output, [0xB0 | channel, 64, 0], at)   // sustain pedal up
+        this.send(output, [0xB0 | channel, 123, 0], at)  // all notes off
+        this.send(output, [0xB0 | channel, 120, 0], at)  // all sound off
+      }
+    })
+  }
+
+  private mapChannel(output: Output, channel: number): number {
+    return output.route.channelMap?.[channel] ?? channel
+  }
+
+  private releaseVoices(output: Output): void {
+    output.voices.releaseAll().forEach(voice => {
+      this.send(output, [0x80 | voice.channel, voice.pitch, 0], Math.max(performance.now(), voice.lastOn))
+    })
+  }
+
+  // One failing device doesn't stop the others; returns whether it was sent
+  private send(output: Output, data: number[], timestamp?: number): boolean {
+    if (!output.port) return false
+    try {
+      output.port.send(data, timestamp)
+      this.lastTimestamp = Math.max(this.lastTimestamp, timestamp ?? 0)
+      return true
+    } catch (error) {
+      console.error(`Failed to send MIDI to ${output.route.deviceId}:`, error)
+      return false
+    }
+  }
+}
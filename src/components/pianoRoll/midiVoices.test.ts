@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { createVoiceTracker } from './midiVoices'
+
+describe('createVoiceTracker', () => {
+  it('ends a pitch only when its last overlapping note ends', () => {
+    const voices = createVoiceTracker()
+
+    voices.noteOn(0, 60, 100)
+    voices.noteOn(0, 60, 250)
+    voices.noteOn(1, 60, 120)
+
+    expect(voices.noteOff(0, 60)).toBeNull()
+    expect(voices.noteOff(0, 60)).toEqual({ channel: 0, pitch: 60, lastOn: 250 })
+    expect(voices.noteOff(0, 60)).toBeNull()
+    expect(voices.count()).toBe(1)
+  })
+
+  it('releases every voice at once', () => {
+    const voices = createVoiceTracker()
+    voices.noteOn(15, 127, 10)
+    voices.noteOn(3, 0, 20)
+    voices.noteOn(3, 0, 30)
+
+    expect(voices.releaseAll()).toEqual([
+      { channel: 15, pitch: 127, lastOn: 10 },
+      { channel: 3, pitch: 0, lastOn: 30 }
+    ])
+    expect(voices.count()).toBe(0)
+    expect(voices.noteOff(3, 0)).toBeNull()
+  })
+})
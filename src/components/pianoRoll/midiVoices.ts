@@ -0,0 +1,51 @@
+// Voices sounding on a MIDI output, counted per channel and pitch. Two notes of
+// the same pitch can overlap on one channel, but the device only hears one
+// note off, so it is sent when the last of them ends.
+
+export interface Voice {
+  channel: number
+  pitch: number
+  lastOn: number  // timestamp of the latest note on, ms
+}
+
+export function createVoiceTracker() {
+  const voices = new Map<number, { count: number, lastOn: number }>()
+  const keyOf = (channel: number, pitch: number) => channel * 128 + pitch
+
+  return {
+    noteOn(channel: number, pitch: number, timestamp: number) {
+      const voice = voices.get(keyOf(channel, pitch))
+      if (voice) {
+        voice.count++
+        voice.lastOn = Math.max(voice.lastOn, timestamp)
+      } else {
+        voices.set(keyOf(channel, pitch), { count: 1, lastOn: timestamp })
+      }
+    },
+
+    // Returns the voice if this ended the last note on it, so the note off
+    // should go out (no earlier than `lastOn`); null if it is still held or
+    // was never on
+    noteOff(channel: number, pitch: number): Voice | null {
+      const key = keyOf(channel, pitch)
+      const voice = voices.get(key)
+      if (!voice) return null
+      if (--voice.count > 0) return null
+      voices.delete(key)
+      return { channel, pitch, lastOn: voice.lastOn }
+    },
+
+    // Forgets every voice and returns them, e.g. to send their note offs
+    releaseAll(): Voice[] {
+      const released = Array.from(voices.entries(), ([key, voice]) => ({
+        channel: Math.floor(key / 128),
+        pitch: key % 128,
+        lastOn: voice.lastOn
+      }))
+      voices.clear()
+      return released
+    },
+
+    count: () => voices.size
+  }
+}
@@ -5,12 +5,15 @@ export interface CommandHandlersOptions {
   state: PianoRollState
   canUndo: Ref<boolean>
   canRedo: Ref<boolean>
+  historyEntries: Ref<string[]>
+  historyIndex: Ref<number>
   emitStateUpdate: () => void
 }
 
 export interface CommandHandlers {
   undo: () => void
   redo: () => void
+  jumpToHistory: (index: number) => void
   deleteSelected: () => void
   updateCommandStackButtons: () => void
   handleCommandStackUpdate: () => void
@@ -20,11 +23,15 @@ export const createCommandHandlers = ({
   state,
   canUndo,
   canRedo,
+  historyEntries,
+  historyIndex,
   emitStateUpdate
 }: CommandHandlersOptions): CommandHandlers => {
   const updateCommandStackButtons = () => {
     canUndo.value = state.command.stack?.canUndo() ?? false
     canRedo.value = state.command.stack?.canRedo() ?? false
+    historyEntries.value = state.command.stack?.getEntries() ?? []
+    historyIndex.value = state.command.stack?.getCurrentIndex() ?? -1
   }
 
   const undo = () => {
@@ -37,6 +44,11 @@ export const createCommandHandlers = ({
     updateCommandStackButtons()
   }
 
+  const jumpToHistory = (index: number) => {
+    state.command.stack?.jumpTo(index)
+    updateCommandStackButtons()
+  }
+
   const deleteSelected = () => {
     if (state.selection.selectedIds.size === 0) return
 
@@ -57,6 +69,7 @@ export const createCommandHandlers = ({
   return {
     undo,
     redo,
+    jumpToHistory,
     deleteSelected,
     updateCommandStackButtons,
     handleCommandStackUpdate
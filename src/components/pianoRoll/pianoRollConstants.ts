@@ -4,3 +4,6 @@ export const TOTAL_PITCHES = 128
 export const MIN_FIT_HORIZONTAL_BEATS = 4
 export const MIN_FIT_VERTICAL_NOTES = 12
 export const DEFAULT_FIT_BOTTOM_NOTE = 55
+export const TRACK_COLORS = ['#ff2233', '#2f7fe0', '#2fa85a', '#e0a020', '#9b4fd6', '#e0609a', '#20b0b0', '#8a6b45']
+// Built-in synth presets; hosts can offer more instruments through the instruments prop
+export const TRACK_INSTRUMENTS = ['synth', 'fm', 'am', 'mono', 'keys', 'bass', 'pad', 'drums'] as const
@@ -15,7 +15,11 @@ import {
   getGridUnitWidth,
   midiPitchToString
 } from './pianoRollUtils'
-import { CommandStack } from './commandStack'
+import { CommandStack, type CommandStackOptions } from './commandStack'
+import { applyStateDiff, captureState, diffStates, mergeStateDiffs } from './stateDiff'
+import { diffNotes } from './pianoRollPreview'
+import { getBars, getBeatLength, getMeterSegments } from './pianoRollTiming'
+import { setLoop } from './pianoRollLoop'
 
 function lerpColor(baseColor: string, targetColor: string, t: number): string {
   const parseHex = (color: string) => {
@@ -44,22 +48,6 @@ function lerpColor(baseColor: string, targetColor: string, t: number): string {
   return `#${((r << 16) | (g << 8) | b).toString(16).padStart(6, '0')}`
 }
 
-// ================= State Serialization =================
-
-export function captureState(state: PianoRollState): string {
-  return JSON.stringify({
-    notes: Array.from(state.notes.entries()),
-    selection: Array.from(state.selection.selectedIds)
-  })
-}
-
-export function restoreState(state: PianoRollState, snapshot: string) {
-  const data = JSON.parse(snapshot)
-  state.notes = new Map(data.notes)
-  state.selection.selectedIds = new Set(data.selection)
-  state.needsRedraw = true
-}
-
 function selectionSetsDiffer(previous: Set<string>, current: Set<string>): boolean {
   if (previous.size !== current.size) return true
   for (const id of previous) {
@@ -82,7 +70,12 @@ function mutateSelection(state: PianoRollState, mutate: () => void): boolean {
 
 // ================= Layer Initialization =================
 
-export function initializeLayers(state: PianoRollState, stage: Konva.Stage, onCommandStackChange?: () => void) {
+export function initializeLayers(
+  state: PianoRollState,
+  stage: Konva.Stage,
+  onCommandStackChange?: () => void,
+  commandStackOptions?: CommandStackOptions
+) {
   // Grid layer (bottom, non-interactive)
   const gridLayer = new Konva.Layer({
     listening: false,
@@ -118,6 +111,33 @@ export function initializeLayers(state: PianoRollState, stage: Konva.Stage, onCo
 
   const pianoRollHeight = 128 * state.grid.noteHeight
 
+  // Create loop region (blue): a see-through band with draggable edges, below the playheads
+  state.loop.band = new Konva.Rect({
+    height: pianoRollHeight,
+    fill: 'rgba(30, 136, 229, 0.12)',
+    listening: false,
+    visible: false
+  })
+  overlayLayer.add(state.loop.band)
+
+  const createLoopEdge = (edge: 'start' | 'end') => {
+    const rect = new Konva.Rect({
+      width: 6,
+      offsetX: 3,
+      height: pianoRollHeight,
+      fill: '#1e88e5',
+      opacity: 0.6,
+      visible: false
+    })
+    rect.setAttr('loopEdge', edge)
+    rect.on('mouseenter', () => { stage.container().style.cursor = 'ew-resize' })
+    rect.on('mouseleave', () => { stage.container().style.cursor = '' })
+    overlayLayer.add(rect)
+    return rect
+  }
+  state.loop.startEdge = createLoopEdge('start')
+  state.loop.endEdge = createLoopEdge('end')
+
   // Create live playhead element (orange)
   state.livePlayhead.element = new Konva.Line({
     points: [0, 0, 0, pianoRollHeight],
@@ -138,12 +158,17 @@ export function initializeLayers(state: PianoRollState, stage: Konva.Stage, onCo
 
   // Initialize command stack
   state.command.stack = new CommandStack(
-    () => captureState(state),
-    (snapshot) => restoreState(state, snapshot),
+    {
+      capture: () => captureState(state),
+      diff: diffStates,
+      apply: (diff, direction) => applyStateDiff(state, diff, direction),
+      merge: mergeStateDiffs
+    },
     () => {
       state.needsRedraw = true
       onCommandStackChange?.()
-    }
+    },
+    commandStackOptions
   )
 }
 
@@ -154,13 +179,16 @@ export function renderGrid(state: PianoRollState) {
   if (!gridLayer || !state.stage) return
 
   const gridCache = state.renderCache.grid
+  const meterKey = JSON.stringify(getMeterSegments(state.grid))
 
-  // Only redraw if viewport or subdivision changed
+  // Only redraw if the viewport, subdivision or song timing changed
   if (gridCache.lastScrollX === state.viewport.scrollX &&
       gridCache.lastScrollY === state.viewport.scrollY &&
       gridCache.lastSubdivision === state.grid.subdivision &&
       gridCache.lastQuarterNoteWidth === state.grid.quarterNoteWidth &&
-      gridCache.lastNoteHeight === state.grid.noteHeight) {
+      gridCache.lastNoteHeight === state.grid.noteHeight &&
+      gridCache.lastMeterKey === meterKey &&
+      gridCache.lastMaxLength === state.grid.maxLength) {
     return
   }
 
@@ -169,58 +197,66 @@ export function renderGrid(state: PianoRollState) {
   gridCache.lastSubdivision = state.grid.subdivision
   gridCache.lastQuarterNoteWidth = state.grid.quarterNoteWidth
   gridCache.lastNoteHeight = state.grid.noteHeight
+  gridCache.lastMeterKey = meterKey
+  gridCache.lastMaxLength = state.grid.maxLength
 
   gridLayer.destroyChildren()
 
   const { scrollX, scrollY } = state.viewport
-  const { quarterNoteWidth, noteHeight, numMeasures, timeSignature } = state.grid
+  const { quarterNoteWidth, noteHeight, maxLength } = state.grid
   const stage = state.stage
 
   const viewportWidth = stage.width()
   const viewportHeight = stage.height()
 
   const pianoRollHeight = 128 * noteHeight
-  const pulsesPerMeasure = timeSignature * 4
-  const measureWidth = quarterNoteWidth * pulsesPerMeasure
+  const songWidth = quarterNoteWidth * maxLength
+  const visibleStart = scrollX / quarterNoteWidth
+  const visibleEnd = (scrollX + viewportWidth) / quarterNoteWidth
+  const visibleBars = getBars(state.grid, maxLength)
+    .filter(bar => bar.position + bar.length >= visibleStart && bar.position <= visibleEnd)
+
+  const addVerticalLine = (position: number, strokeWidth: number) => {
+    const xPos = position * quarterNoteWidth - scrollX
+    gridLayer.add(new Konva.Line({
+      points: [xPos, -scrollY, xPos, pianoRollHeight - scrollY],
+      stroke: '#000',
+      strokeWidth,
+      listening: false
+    }))
+  }
 
   // Draw measure backgrounds
-  const firstVisibleMeasure = Math.floor(scrollX / measureWidth)
-  const lastVisibleMeasure = Math.ceil((scrollX + viewportWidth) / measureWidth)
-
-  for (let i = firstVisibleMeasure; i <= lastVisibleMeasure && i < numMeasures; i++) {
-    const color = i % 2 === 0 ? state.grid.backgroundColor1 : state.grid.backgroundColor2
-    const x = i * measureWidth - scrollX
-
+  visibleBars.forEach(bar => {
     gridLayer.add(new Konva.Rect({
-      x,
+      x: bar.position * quarterNoteWidth - scrollX,
       y: -scrollY,
-      width: measureWidth,
+      width: bar.length * quarterNoteWidth,
       height: pianoRollHeight,
-      fill: color,
+      fill: bar.index % 2 === 0 ? state.grid.backgroundColor1 : state.grid.backgroundColor2,
       listening: false
     }))
-  }
-
-  // Draw vertical lines (time grid)
-  const numVertLines = numMeasures * pulsesPerMeasure * (state.grid.subdivision / 4)
-  const vertLineSpace = quarterNoteWidth * (4 / state.grid.subdivision)
-
-  const firstVisibleLine = Math.floor(scrollX / vertLineSpace)
-  const lastVisibleLine = Math.ceil((scrollX + viewportWidth) / vertLineSpace)
+  })
 
-  for (let i = firstVisibleLine; i <= lastVisibleLine && i < numVertLines; i++) {
-    const xPos = i * vertLineSpace - scrollX
-    const isQuarterNote = (i * vertLineSpace) % quarterNoteWidth === 0
-    const strokeWidth = isQuarterNote ? 1.8 : 1
+  // Draw vertical lines (time grid): subdivisions, then each bar's beats and bar line on top
+  const lineStep = 4 / state.grid.subdivision
+  const numVertLines = Math.round(maxLength / lineStep)
+  const firstVisibleLine = Math.max(0, Math.floor(visibleStart / lineStep))
+  const lastVisibleLine = Math.min(numVertLines, Math.ceil(visibleEnd / lineStep))
 
-    gridLayer.add(new Konva.Line({
-      points: [xPos, -scrollY, xPos, pianoRollHeight - scrollY],
-      stroke: '#000',
-      strokeWidth,
-      listening: false
-    }))
+  for (let i = firstVisibleLine; i <= lastVisibleLine; i++) {
+    addVerticalLine(i * lineStep, 1)
   }
 
+  visibleBars.forEach(bar => {
+    const beatLength = getBeatLength(bar)
+    for (let beat = beatLength; beat < bar.length - 1e-9; beat += beatLength) {
+      addVerticalLine(bar.position + beat, 1.8)
+    }
+    addVerticalLine(bar.position, 2.6)
+  })
+  if (maxLength <= visibleEnd) addVerticalLine(maxLength, 2.6)
+
   // Draw horizontal lines (pitch boundaries)
   const firstVisiblePitch = Math.floor(scrollY / noteHeight)
   const lastVisiblePitch = Math.ceil((scrollY + viewportHeight) / noteHeight)
@@ -229,7 +265,7 @@ export function renderGrid(state: PianoRollState) {
     const yPos = i * noteHeight - scrollY
 
     gridLayer.add(new Konva.Line({
-      points: [0 - scrollX, yPos, numMeasures * measureWidth - scrollX, yPos],
+      points: [0 - scrollX, yPos, songWidth - scrollX, yPos],
       stroke: '#000',
       strokeWidth: 1,
       listening: false
@@ -247,21 +283,44 @@ export function renderVisibleNotes(state: PianoRollState) {
 
   const { quarterNoteWidth, noteHeight } = state.grid
 
-  // Separate notes into selected and unselected for proper z-order
+  // Separate notes into ghost (inactive tracks), selected and unselected for proper z-order
+  const ghostNotes: NoteData[] = []
   const unselectedNotes: Array<[string, NoteData]> = []
   const selectedNotes: Array<[string, NoteData]> = []
 
   state.notes.forEach((note, id) => {
     if (!isNoteVisible(note, state)) return
 
-    if (state.selection.selectedIds.has(id)) {
+    if (note.trackId !== state.activeTrackId) {
+      ghostNotes.push(note)
+    } else if (state.selection.selectedIds.has(id)) {
       selectedNotes.push([id, note])
     } else {
       unselectedNotes.push([id, note])
     }
   })
 
-  // Render unselected notes first (back)
+  // Render ghost notes from other tracks first (back, not interactive)
+  ghostNotes.forEach(note => {
+    const screen = pitchPositionToScreen(note.pitch, note.position, state)
+    const track = state.tracks.get(note.trackId)
+
+    notesLayer.add(new Konva.Rect({
+      x: screen.x,
+      y: screen.y,
+      width: note.duration * quarterNoteWidth,
+      height: noteHeight,
+      fill: track?.color ?? state.grid.noteColor,
+      stroke: '#000',
+      strokeWidth: 0.5,
+      opacity: track?.muted ? 0.12 : 0.3,
+      listening: false
+    }))
+  })
+
+  const activeTrackColor = state.tracks.get(state.activeTrackId)?.color ?? state.grid.noteColor
+
+  // Render unselected notes (active track)
   unselectedNotes.forEach(([id, note]) => {
     const screen = pitchPositionToScreen(note.pitch, note.position, state)
     // Use display duration (may be truncated)
@@ -270,7 +329,7 @@ export function renderVisibleNotes(state: PianoRollState) {
     const isHidden = state.interaction.hiddenNoteIds.has(id)
 
     const velocityNormalized = Math.min(1, Math.max(0, note.velocity / 127))
-    const noteColor = lerpColor(state.grid.noteColor, '#444444', 1 - velocityNormalized)
+    const noteColor = lerpColor(activeTrackColor, '#444444', 1 - velocityNormalized)
     
     const rect = new Konva.Rect({
       x: screen.x,
@@ -333,9 +392,57 @@ export function renderVisibleNotes(state: PianoRollState) {
     notesLayer.add(label)
   })
 
+  renderPreviewNotes(state, notesLayer)
+
   notesLayer.batchDraw()
 }
 
+// Proposal overlay, drawn on top of the real notes: added notes green,
+// removed notes struck out in red, changed notes amber at their new place
+// with a dashed outline where they were
+function renderPreviewNotes(state: PianoRollState, notesLayer: Konva.Layer) {
+  if (!state.preview) return
+
+  const { quarterNoteWidth, noteHeight } = state.grid
+  const changes = diffNotes(state.notes, state.preview.notes)
+
+  const drawNote = (note: NoteData, style: Partial<Konva.RectConfig>) => {
+    if (!isNoteVisible(note, state)) return
+    const screen = pitchPositionToScreen(note.pitch, note.position, state)
+    const rect = new Konva.Rect({
+      x: screen.x,
+      y: screen.y,
+      width: Math.max(note.duration * quarterNoteWidth, 2),
+      height: noteHeight,
+      listening: false,
+      ...style
+    })
+    notesLayer.add(rect)
+    return rect
+  }
+
+  changes.removed.forEach(note => {
+    drawNote(note, { fill: 'rgba(220, 40, 40, 0.35)', stroke: '#c62828', strokeWidth: 2, dash: [4, 3] })
+    if (!isNoteVisible(note, state)) return
+    const screen = pitchPositionToScreen(note.pitch, note.position, state)
+    notesLayer.add(new Konva.Line({
+      points: [screen.x, screen.y + noteHeight / 2, screen.x + note.duration * quarterNoteWidth, screen.y + noteHeight / 2],
+      stroke: '#c62828',
+      strokeWidth: 2,
+      listening: false
+    }))
+  })
+
+  changes.changed.forEach(({ before, after }) => {
+    drawNote(before, { stroke: '#555', strokeWidth: 1, dash: [3, 3] })
+    drawNote(after, { fill: '#ffb300', opacity: 0.85, stroke: '#e65100', strokeWidth: 2 })
+  })
+
+  changes.added.forEach(note => {
+    drawNote(note, { fill: '#43a047', opacity: 0.85, stroke: '#1b5e20', strokeWidth: 2, dash: [6, 3] })
+  })
+}
+
 export function renderResizeHandles(state: PianoRollState) {
   const notesLayer = state.layers.notes
   if (!notesLayer) return
@@ -416,6 +523,20 @@ export function updateQueuePlayheadPosition(state: PianoRollState) {
   state.layers.overlay?.batchDraw()
 }
 
+export function updateLoopRegion(state: PianoRollState) {
+  const { band, startEdge, endEdge, enabled, start, end } = state.loop
+  if (!band || !startEdge || !endEdge) return
+
+  const { scrollX, scrollY } = state.viewport
+  const startX = start * state.grid.quarterNoteWidth - scrollX
+  const endX = end * state.grid.quarterNoteWidth - scrollX
+
+  band.setAttrs({ x: startX, y: -scrollY, width: endX - startX, visible: enabled })
+  startEdge.setAttrs({ x: startX, y: -scrollY, visible: enabled })
+  endEdge.setAttrs({ x: endX, y: -scrollY, visible: enabled })
+  state.layers.overlay?.batchDraw()
+}
+
 export function updateLivePlayheadPosition(state: PianoRollState) {
   if (!state.livePlayhead.element) return
 
@@ -444,6 +565,7 @@ export function setupEventHandlers(state: PianoRollState, stage: Konva.Stage) {
       state.command.stack?.executeCommand('Add Note', () => {
         const note: NoteData = {
           id: uid(),
+          trackId: state.activeTrackId,
           pitch: quantizedPitch,
           position: quantizedPos,
           duration: 4 / state.grid.subdivision,
@@ -467,6 +589,13 @@ export function setupEventHandlers(state: PianoRollState, stage: Konva.Stage) {
       return
     }
 
+    // Check if clicking on a loop edge
+    const loopEdge: 'start' | 'end' | undefined = target instanceof Konva.Shape ? target.getAttr('loopEdge') : undefined
+    if (loopEdge) {
+      state.interaction.loopEdgeDrag = loopEdge
+      return
+    }
+
     // Check if clicking on note
     const noteId = target.getAttr?.('noteId')
     if (noteId) {
@@ -533,6 +662,12 @@ export function setupEventHandlers(state: PianoRollState, stage: Konva.Stage) {
       return
     }
 
+    // Handle loop edge drag
+    if (state.interaction.loopEdgeDrag) {
+      updateLoopEdgeDrag(state, stage)
+      return
+    }
+
     // Handle marquee selection
     if (state.interaction.isMarqueeSelecting) {
       state.interaction.marqueeCurrent = pos
@@ -580,6 +715,12 @@ export function setupEventHandlers(state: PianoRollState, stage: Konva.Stage) {
       return
     }
 
+    if (state.interaction.loopEdgeDrag) {
+      state.interaction.loopEdgeDrag = undefined
+      state.notifyExternalChange?.()
+      return
+    }
+
     if (state.interaction.isMarqueeSelecting) {
       const wasClick = state.interaction.marqueeStart && state.interaction.marqueeCurrent &&
         Math.abs(state.interaction.marqueeStart.x - state.interaction.marqueeCurrent.x) < 5 &&
@@ -672,9 +813,9 @@ function finishNoteDrag(state: PianoRollState) {
   // Execute overlap changes (truncate/delete notes)
   executeOverlapChanges(state)
 
-  const after = captureState(state)
-  if (state.interaction.dragBeforeState && state.interaction.dragBeforeState !== after) {
-    state.command.stack?.pushCommand('Move Notes', state.interaction.dragBeforeState, after)
+  if (state.interaction.dragBeforeState) {
+    state.command.stack?.pushCommand('Move Notes', state.interaction.dragBeforeState, captureState(state))
+    state.interaction.dragBeforeState = undefined
   }
 
   state.interaction.isDragging = false
@@ -749,12 +890,30 @@ function finishNoteResize(state: PianoRollState) {
   // Execute overlap changes (truncate/delete notes)
   executeOverlapChanges(state)
 
-  const after = captureState(state)
-  if (state.interaction.resizeBeforeState && state.interaction.resizeBeforeState !== after) {
-    state.command.stack?.pushCommand('Resize Notes', state.interaction.resizeBeforeState, after)
+  if (state.interaction.resizeBeforeState) {
+    state.command.stack?.pushCommand('Resize Notes', state.interaction.resizeBeforeState, captureState(state))
+    state.interaction.resizeBeforeState = undefined
   }
 
   state.interaction.isResizing = false
   clearOverlapPreview(state)
   state.needsRedraw = true
 }
+
+// ================= Loop Edge Handlers =================
+
+// Edges snap to the grid; an edge dragged past the other one stops a grid step short
+function updateLoopEdgeDrag(state: PianoRollState, stage: Konva.Stage) {
+  const pos = stage.getPointerPosition()
+  if (!pos) return
+
+  const { position } = screenToPitchPosition(pos, state)
+  const step = 4 / state.grid.subdivision
+  const snapped = Math.round(position / step) * step
+
+  if (state.interaction.loopEdgeDrag === 'start') {
+    setLoop(state, { start: Math.min(snapped, state.loop.end - step) })
+  } else {
+    setLoop(state, { end: Math.max(snapped, state.loop.start + step) })
+  }
+}
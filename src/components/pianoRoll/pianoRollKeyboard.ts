@@ -76,7 +76,7 @@ export const createKeyboardController = ({
 
         executeOverlapChanges(state, state.selection.selectedIds)
         state.needsRedraw = true
-      })
+      }, { merge: true })
 
       updateCommandStackButtons()
       return
@@ -114,6 +114,7 @@ export const createKeyboardController = ({
             const newNote: NoteData = {
               ...note,
               id: `note_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+              trackId: state.activeTrackId,
               position: state.queuePlayhead.position + note.position
             }
             state.notes.set(newNote.id, newNote)
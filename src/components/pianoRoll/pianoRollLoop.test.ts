@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { createPianoRollState, DEFAULT_TRACK_ID } from './pianoRollState'
+import { getDefaultLoop, getLoop, setLoop } from './pianoRollLoop'
+
+function createState() {
+  const state = createPianoRollState()
+  state.grid.maxLength = 32
+  state.grid.subdivision = 16
+  return state
+}
+
+describe('setLoop', () => {
+  it('keeps the region inside the song and at least one grid step long', () => {
+    const state = createState()
+
+    expect(setLoop(state, { enabled: true, start: -2, end: 40 })).toBe(true)
+    expect(getLoop(state)).toEqual({ enabled: true, start: 0, end: 32 })
+
+    setLoop(state, { start: 8, end: 8 })
+    expect(getLoop(state)).toEqual({ enabled: true, start: 8, end: 8.25 })
+    expect(setLoop(state, { start: 8 })).toBe(false)
+  })
+})
+
+describe('getDefaultLoop', () => {
+  it('covers the bars of the selected notes, or four bars from the queue playhead', () => {
+    const state = createState()
+    state.queuePlayhead.position = 5
+    expect(getDefaultLoop(state)).toEqual({ start: 4, end: 20 })
+
+    state.queuePlayhead.position = 30
+    expect(getDefaultLoop(state)).toEqual({ start: 28, end: 32 })
+
+    state.notes.set('a', { id: 'a', trackId: DEFAULT_TRACK_ID, pitch: 60, position: 9, duration: 3, velocity: 100 })
+    state.notes.set('b', { id: 'b', trackId: DEFAULT_TRACK_ID, pitch: 60, position: 13, duration: 3, velocity: 100 })
+    state.selection.selectedIds = new Set(['a', 'b'])
+    expect(getDefaultLoop(state)).toEqual({ start: 8, end: 16 })
+  })
+})
@@ -0,0 +1,55 @@
+import type { PianoRollState } from './pianoRollState'
+import { getBars } from './pianoRollTiming'
+
+// Pure state helpers for the loop region. The region is part of the view like
+// the playheads, so changing it is not an undoable command.
+
+export interface LoopRegion {
+  enabled: boolean
+  start: number  // quarter notes
+  end: number    // quarter notes, exclusive
+}
+
+export const DEFAULT_LOOP_BARS = 4
+
+export function getLoop(state: PianoRollState): LoopRegion {
+  const { enabled, start, end } = state.loop
+  return { enabled, start, end }
+}
+
+// Keeps the region inside the song and at least one grid step long. Returns
+// whether anything changed.
+export function setLoop(state: PianoRollState, patch: Partial<LoopRegion>): boolean {
+  const minLength = 4 / state.grid.subdivision
+  const maxLength = state.grid.maxLength
+  const next = { ...getLoop(state), ...patch }
+
+  const start = Math.max(0, Math.min(Number.isFinite(next.start) ? next.start : 0, maxLength - minLength))
+  const end = Math.max(start + minLength, Math.min(Number.isFinite(next.end) ? next.end : maxLength, maxLength))
+  const changed = next.enabled !== state.loop.enabled || start !== state.loop.start || end !== state.loop.end
+
+  state.loop.enabled = next.enabled
+  state.loop.start = start
+  state.loop.end = end
+  state.needsRedraw = true
+  return changed
+}
+
+// Whole bars around the selected notes, or a few bars from the queue playhead
+export function getDefaultLoop(state: PianoRollState): Pick<LoopRegion, 'start' | 'end'> {
+  const bars = getBars(state.grid, state.grid.maxLength)
+  const selected = Array.from(state.selection.selectedIds, id => state.notes.get(id)!).filter(Boolean)
+  const barIndexAt = (position: number) => {
+    const index = bars.findIndex(bar => position < bar.position + bar.length)
+    return index === -1 ? bars.length - 1 : index
+  }
+
+  const first = selected.length > 0
+    ? barIndexAt(Math.min(...selected.map(note => note.position)))
+    : barIndexAt(state.queuePlayhead.position)
+  const last = selected.length > 0
+    ? barIndexAt(Math.max(...selected.map(note => note.position + note.duration)) - 1e-9)
+    : Math.min(first + DEFAULT_LOOP_BARS, bars.length) - 1
+
+  return { start: bars[first]!.position, end: bars[last]!.position + bars[last]!.length }
+}
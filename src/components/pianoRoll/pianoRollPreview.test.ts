@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { createPianoRollState, DEFAULT_TRACK_ID, type NoteData } from './pianoRollState'
+import { clearPreview, diffNotes, getPreviewSummary, setPreview } from './pianoRollPreview'
+
+function note(id: string, fields: Partial<NoteData> = {}): NoteData {
+  return { id, trackId: DEFAULT_TRACK_ID, pitch: 60, position: 0, duration: 1, velocity: 100, ...fields }
+}
+
+describe('diffNotes', () => {
+  it('matches notes by id and sorts them into added, removed and changed', () => {
+    const current = new Map([
+      ['a', note('a')],
+      ['b', note('b', { position: 1 })],
+      ['c', note('c', { position: 2 })]
+    ])
+
+    const changes = diffNotes(current, [
+      note('a'),
+      note('b', { position: 1, velocity: 80 }),
+      note('d', { pitch: 64 })
+    ])
+
+    expect(changes.added.map(n => n.id)).toEqual(['d'])
+    expect(changes.removed.map(n => n.id)).toEqual(['c'])
+    expect(changes.changed).toEqual([{ before: current.get('b'), after: note('b', { position: 1, velocity: 80 }) }])
+  })
+})
+
+describe('preview state', () => {
+  it('summarizes against the current notes and clears once', () => {
+    const state = createPianoRollState()
+    state.notes.set('a', note('a'))
+    state.needsRedraw = false
+
+    setPreview(state, [note('a', { pitch: 62 }), note('b')], 'transpose')
+
+    expect(state.needsRedraw).toBe(true)
+    expect(getPreviewSummary(state)).toEqual({ label: 'transpose', added: 1, removed: 0, changed: 1 })
+
+    state.notes.delete('a')
+    expect(getPreviewSummary(state)).toEqual({ label: 'transpose', added: 2, removed: 0, changed: 0 })
+
+    expect(clearPreview(state)).toBe(true)
+    expect(clearPreview(state)).toBe(false)
+    expect(getPreviewSummary(state)).toBeNull()
+  })
+})
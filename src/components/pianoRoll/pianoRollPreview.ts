@@ -0,0 +1,69 @@
+import type { NoteData, PianoRollState } from './pianoRollState'
+
+// Pure helpers for proposals: a complete replacement note list that is drawn
+// over the roll and only written (as one command) when accepted.
+
+export interface NoteChanges {
+  added: NoteData[]
+  removed: NoteData[]
+  changed: Array<{ before: NoteData, after: NoteData }>
+}
+
+export interface PreviewSummary {
+  label: string
+  added: number
+  removed: number
+  changed: number
+}
+
+const sameNote = (a: NoteData, b: NoteData): boolean =>
+  a.pitch === b.pitch &&
+  a.position === b.position &&
+  a.duration === b.duration &&
+  a.velocity === b.velocity &&
+  a.trackId === b.trackId
+
+// Notes are matched by id; a proposal note with a new id counts as added
+export function diffNotes(current: Map<string, NoteData>, proposed: NoteData[]): NoteChanges {
+  const proposedIds = new Set(proposed.map(note => note.id))
+  const changes: NoteChanges = { added: [], removed: [], changed: [] }
+
+  proposed.forEach(after => {
+    const before = current.get(after.id)
+    if (!before) {
+      changes.added.push(after)
+    } else if (!sameNote(before, after)) {
+      changes.changed.push({ before, after })
+    }
+  })
+  current.forEach(note => {
+    if (!proposedIds.has(note.id)) changes.removed.push(note)
+  })
+
+  return changes
+}
+
+export function setPreview(state: PianoRollState, notes: NoteData[], label: string) {
+  state.preview = { notes, label }
+  state.needsRedraw = true
+}
+
+export function clearPreview(state: PianoRollState): boolean {
+  if (!state.preview) return false
+  state.preview = undefined
+  state.needsRedraw = true
+  return true
+}
+
+// Counts are taken against the current notes, so they stay right if the
+// notes change while a proposal is open
+export function getPreviewSummary(state: PianoRollState): PreviewSummary | null {
+  if (!state.preview) return null
+  const changes = diffNotes(state.notes, state.preview.notes)
+  return {
+    label: state.preview.label,
+    added: changes.added.length,
+    removed: changes.removed.length,
+    changed: changes.changed.length
+  }
+}
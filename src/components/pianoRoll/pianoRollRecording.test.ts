@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import { createPianoRollState, DEFAULT_TRACK_ID } from './pianoRollState'
+import { captureState, diffStates } from './stateDiff'
+import { beginTake, createNoteCapture, finishTake, sweepTake, writeTakeNote, type TakeOptions } from './pianoRollRecording'
+
+function createState() {
+  const state = createPianoRollState()
+  state.grid.maxLength = 32
+  state.grid.subdivision = 16
+  return state
+}
+
+function addNote(state: ReturnType<typeof createState>, id: string, position: number, duration: number) {
+  state.notes.set(id, { id, trackId: DEFAULT_TRACK_ID, pitch: 60, position, duration, velocity: 100 })
+}
+
+function startTake(state: ReturnType<typeof createState>, start: number, options: Partial<TakeOptions> = {}) {
+  state.queuePlayhead.position = start
+  beginTake(state, { mode: 'overdub', quantize: false, ...options })
+}
+
+describe('createNoteCapture', () => {
+  it('pairs note-ons with note-offs and ends held notes on flush', () => {
+    const capture = createNoteCapture()
+
+    expect(capture.noteOn(60, 90, 1)).toBeNull()
+    expect(capture.noteOn(64, 80, 2)).toBeNull()
+    expect(capture.noteOff(60, 3)).toEqual({ pitch: 60, velocity: 90, position: 1, duration: 2 })
+    expect(capture.noteOff(60, 4)).toBeNull()
+
+    // Retriggering a held pitch ends the earlier note
+    expect(capture.noteOn(64, 70, 5)).toEqual({ pitch: 64, velocity: 80, position: 2, duration: 3 })
+    expect(capture.flush(6)).toEqual([{ pitch: 64, velocity: 70, position: 5, duration: 1 }])
+    expect(capture.isHolding()).toBe(false)
+  })
+})
+
+describe('writeTakeNote', () => {
+  it('snaps to the nearest grid line when quantizing and keeps notes inside the song', () => {
+    const state = createState()
+    startTake(state, 0, { quantize: true })
+
+    const note = writeTakeNote(state, { pitch: 60, velocity: 100, position: 1.15, duration: 0.05 })
+    expect(note).toMatchObject({ position: 1.25, duration: 0.25, trackId: DEFAULT_TRACK_ID })
+    expect(state.take!.noteIds.has(note!.id)).toBe(true)
+
+    expect(writeTakeNote(state, { pitch: 60, velocity: 100, position: 31.9, duration: 2 })).toBeNull()
+    expect(writeTakeNote(state, { pitch: 60, velocity: 100, position: 31, duration: 2 })).toMatchObject({ position: 31, duration: 1 })
+  })
+
+  it('does nothing without a take', () => {
+    const state = createState()
+    expect(writeTakeNote(state, { pitch: 60, velocity: 100, position: 0, duration: 1 })).toBeNull()
+    expect(state.notes.size).toBe(0)
+  })
+})
+
+describe('sweepTake', () => {
+  it('clears what the take passes over in overwrite mode only', () => {
+    const state = createState()
+    addNote(state, 'before', 2, 4)
+    addNote(state, 'inside', 5, 1)
+    addNote(state, 'ahead', 10, 1)
+
+    startTake(state, 4, { mode: 'overdub' })
+    expect(sweepTake(state, 8)).toBe(0)
+    finishTake(state, 8)
+    expect(state.notes.size).toBe(3)
+
+    startTake(state, 4, { mode: 'overwrite' })
+    const recorded = writeTakeNote(state, { pitch: 62, velocity: 100, position: 4.5, duration: 1 })!
+    expect(sweepTake(state, 8)).toBe(2)
+    expect(state.notes.get('before')!.duration).toBe(2)
+    expect(state.notes.has('inside')).toBe(false)
+    expect(state.notes.has(recorded.id)).toBe(true)
+    expect(state.notes.has('ahead')).toBe(true)
+  })
+})
+
+describe('finishTake', () => {
+  it('selects the recorded notes and clears the take', () => {
+    const state = createState()
+    addNote(state, 'a', 0, 1)
+    state.selection.selectedIds = new Set(['a'])
+
+    startTake(state, 0)
+    const recorded = writeTakeNote(state, { pitch: 62, velocity: 100, position: 1, duration: 1 })!
+    const take = finishTake(state, 4)
+
+    expect(take!.noteIds.size).toBe(1)
+    expect(state.take).toBeUndefined()
+    expect(Array.from(state.selection.selectedIds)).toEqual([recorded.id])
+  })
+
+  it('leaves edits made by others during the take out of its undo entry', () => {
+    const state = createState()
+    addNote(state, 'cut', 2, 4)
+    addNote(state, 'swept', 5, 1)
+
+    startTake(state, 4, { mode: 'overwrite' })
+    const recorded = writeTakeNote(state, { pitch: 62, velocity: 100, position: 4.5, duration: 1 })!
+    sweepTake(state, 8)
+    addNote(state, 'chat', 12, 1)
+    state.grid.bpm = 90
+    const take = finishTake(state, 8)!
+
+    const diff = diffStates(take.before, captureState(state))!
+    expect(diff.timing).toBeUndefined()
+    expect(diff.notes.map(change => [change.id, change.before?.duration, change.after?.duration])).toEqual([
+      ['cut', 4, 2],
+      ['swept', 1, undefined],
+      [recorded.id, undefined, 1]
+    ])
+  })
+})
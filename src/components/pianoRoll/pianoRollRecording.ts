@@ -0,0 +1,143 @@
+import type { NoteData, PianoRollState } from './pianoRollState'
+import { captureState, type StateSnapshot } from './stateDiff'
+import { quantizeToGrid, uid } from './pianoRollUtils'
+
+// Recording a take from a MIDI controller. Finished notes are written straight
+// into state.notes on the active track while the take runs; the caller pushes
+// one command from the finished take's `before` to the end state once it stops.
+
+export type RecordMode = 'overwrite' | 'overdub'
+
+export interface TakeOptions {
+  mode: RecordMode     // overwrite clears the active track's notes the take passes over
+  quantize: boolean    // snap note starts and ends to the grid
+}
+
+export interface Take extends TakeOptions {
+  start: number        // quarter notes
+  noteIds: Set<string> // notes written by this take
+  replaced: Map<string, NoteData> // notes the take cut or removed, as they were
+}
+
+export interface FinishedTake extends Take {
+  // The end state with only the take's own edits undone, so commands run during
+  // the take (chat edits, tempo changes) keep their own history entries
+  before: StateSnapshot
+}
+
+export interface RecordedNote {
+  pitch: number
+  velocity: number     // 1-127
+  position: number     // quarter notes
+  duration: number
+}
+
+// Pairs note-ons with note-offs. A repeated note-on for a held pitch ends the
+// previous one first; `flush` ends everything still held (e.g. on stop).
+export function createNoteCapture() {
+  const held = new Map<number, { velocity: number, position: number }>()
+
+  const noteOff = (pitch: number, position: number): RecordedNote | null => {
+    const on = held.get(pitch)
+    if (!on) return null
+    held.delete(pitch)
+    return { pitch, velocity: on.velocity, position: on.position, duration: Math.max(0, position - on.position) }
+  }
+
+  return {
+    noteOn(pitch: number, velocity: number, position: number): RecordedNote | null {
+      const ended = noteOff(pitch, position)
+      held.set(pitch, { velocity, position })
+      return ended
+    },
+    noteOff,
+    flush(position: number): RecordedNote[] {
+      return Array.from(held.keys())
+        .map(pitch => noteOff(pitch, position))
+        .filter((note): note is RecordedNote => note !== null)
+    },
+    isHolding: () => held.size > 0
+  }
+}
+
+export function beginTake(state: PianoRollState, options: TakeOptions) {
+  state.take = {
+    ...options,
+    start: state.queuePlayhead.position,
+    noteIds: new Set(),
+    replaced: new Map()
+  }
+}
+
+// Writes one finished note onto the active track. Quantizing rounds to the
+// nearest grid line (quantizeToGrid floors, so it is given half a step extra)
+// and keeps the note at least one step long. Returns null outside the song.
+export function writeTakeNote(state: PianoRollState, recorded: RecordedNote): NoteData | null {
+  const take = state.take
+  if (!take) return null
+
+  const step = 4 / state.grid.subdivision
+  let position = recorded.position
+  let end = recorded.position + recorded.duration
+  if (take.quantize) {
+    position = quantizeToGrid(position + step / 2, state.grid.subdivision)
+    end = Math.max(position + step, quantizeToGrid(end + step / 2, state.grid.subdivision))
+  }
+  end = Math.min(end, state.grid.maxLength)
+  if (position < 0 || position >= state.grid.maxLength || end <= position) return null
+
+  const note: NoteData = {
+    id: uid(),
+    trackId: state.activeTrackId,
+    pitch: Math.max(0, Math.min(127, Math.round(recorded.pitch))),
+    position,
+    duration: end - position,
+    velocity: Math.max(1, Math.min(127, Math.round(recorded.velocity)))
+  }
+  state.notes.set(note.id, note)
+  take.noteIds.add(note.id)
+  state.needsRedraw = true
+  return note
+}
+
+// Overwrite mode: the active track's notes that start between the take's start
+// and `position` are removed, and ones running into the take are cut at its
+// start. Overdub leaves them alone. Returns the number of notes changed.
+export function sweepTake(state: PianoRollState, position: number): number {
+  const take = state.take
+  if (!take || take.mode !== 'overwrite') return 0
+
+  let changed = 0
+  state.notes.forEach((note, id) => {
+    if (note.trackId !== state.activeTrackId || take.noteIds.has(id)) return
+
+    if (note.position >= take.start && note.position < position) {
+      if (!take.replaced.has(id)) take.replaced.set(id, { ...note })
+      state.notes.delete(id)
+      state.selection.selectedIds.delete(id)
+      changed++
+    } else if (note.position < take.start && note.position + note.duration > take.start && position > take.start) {
+      if (!take.replaced.has(id)) take.replaced.set(id, { ...note })
+      note.duration = take.start - note.position
+      changed++
+    }
+  })
+  if (changed > 0) state.needsRedraw = true
+  return changed
+}
+
+// Ends the take and selects what it recorded; the caller records the command
+export function finishTake(state: PianoRollState, position: number): FinishedTake | undefined {
+  const take = state.take
+  if (!take) return undefined
+
+  sweepTake(state, position)
+  const before = captureState(state)
+  take.noteIds.forEach(id => before.notes.delete(id))
+  take.replaced.forEach((note, id) => before.notes.set(id, { ...note }))
+
+  state.selection.selectedIds = new Set(Array.from(take.noteIds).filter(id => state.notes.has(id)))
+  state.take = undefined
+  state.needsRedraw = true
+  return { ...take, before }
+}
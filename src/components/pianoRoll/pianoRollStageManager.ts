@@ -1,17 +1,24 @@
 import Konva from 'konva'
 import type { Ref } from 'vue'
 import type { PianoRollState, NoteData } from './pianoRollState'
+import type { CommandStackOptions } from './commandStack'
 
 export interface StageManagerDependencies {
   state: PianoRollState
   konvaContainer: Ref<HTMLDivElement | undefined>
-  initializeLayers: (state: PianoRollState, stage: Konva.Stage, onCommandStackChange?: () => void) => void
+  initializeLayers: (
+    state: PianoRollState,
+    stage: Konva.Stage,
+    onCommandStackChange?: () => void,
+    commandStackOptions?: CommandStackOptions
+  ) => void
   setupEventHandlers: (state: PianoRollState, stage: Konva.Stage) => void
   renderGrid: (state: PianoRollState) => void
   renderVisibleNotes: (state: PianoRollState) => void
   renderResizeHandles: (state: PianoRollState) => void
   updateQueuePlayheadPosition: (state: PianoRollState) => void
   updateLivePlayheadPosition: (state: PianoRollState) => void
+  updateLoopRegion: (state: PianoRollState) => void
   handleCommandStackUpdate: () => void
   syncUiCounters: () => void
   enforceScrollBounds: () => void
@@ -24,6 +31,7 @@ export interface StageMountOptions {
   height: number
   interactive: boolean
   initialNotes: Array<[string, NoteData]>
+  historyLimit?: number
 }
 
 export class StageManager {
@@ -37,6 +45,7 @@ export class StageManager {
       this.deps.renderGrid(this.deps.state)
       this.deps.renderVisibleNotes(this.deps.state)
       this.deps.renderResizeHandles(this.deps.state)
+      this.deps.updateLoopRegion(this.deps.state)
       this.deps.updateQueuePlayheadPosition(this.deps.state)
       this.deps.updateLivePlayheadPosition(this.deps.state)
       this.deps.state.needsRedraw = false
@@ -78,6 +87,7 @@ export class StageManager {
     this.deps.state.stage.listening(false)
     this.deps.state.interaction.isDragging = false
     this.deps.state.interaction.isResizing = false
+    this.deps.state.interaction.loopEdgeDrag = undefined
     this.deps.state.interaction.isMarqueeSelecting = false
     this.deps.state.selection.selectionRect?.visible(false)
 
@@ -90,7 +100,7 @@ export class StageManager {
     this.deps.syncUiCounters()
   }
 
-  mount({ width, height, interactive, initialNotes }: StageMountOptions) {
+  mount({ width, height, interactive, initialNotes, historyLimit }: StageMountOptions) {
     if (!this.deps.konvaContainer.value) {
       console.error('Konva container ref not found')
       return
@@ -105,7 +115,9 @@ export class StageManager {
     this.deps.state.stage = stageInstance
     this.deps.state.konvaContainer = this.deps.konvaContainer.value
 
-    this.deps.initializeLayers(this.deps.state, stageInstance, this.deps.handleCommandStackUpdate)
+    this.deps.initializeLayers(this.deps.state, stageInstance, this.deps.handleCommandStackUpdate, {
+      maxEntries: historyLimit
+    })
 
     if (interactive) {
       this.enableInteractivity()
@@ -114,7 +126,9 @@ export class StageManager {
     }
 
     if (initialNotes.length > 0) {
-      this.deps.state.notes = new Map(initialNotes)
+      // Notes seeded without a track land on the active track
+      const activeTrackId = this.deps.state.activeTrackId
+      this.deps.state.notes = new Map(initialNotes.map(([id, note]) => [id, { ...note, trackId: note.trackId ?? activeTrackId }]))
       this.deps.state.needsRedraw = true
       this.deps.syncUiCounters()
     }
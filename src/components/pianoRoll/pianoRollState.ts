@@ -1,10 +1,16 @@
 import Konva from 'konva'
 import type { CommandStack } from './commandStack'
+import type { StateDiff, StateSnapshot } from './stateDiff'
+import type { MeterChange, TempoChange } from './pianoRollTiming'
 import type { MIDIManager, MIDIDevice } from './midiManager'
+import type { MIDIOutputRoute } from './midiOutputs'
+import type { Take } from './pianoRollRecording'
+import { TRACK_COLORS, TRACK_INSTRUMENTS } from './pianoRollConstants'
 
 // Pure data - NO Konva references
 export type NoteData = {
   id: string
+  trackId: string
   pitch: number  // MIDI 0-127
   position: number  // in quarter notes
   duration: number  // in quarter notes
@@ -12,9 +18,23 @@ export type NoteData = {
   metadata?: any
 }
 
+// A built-in preset or an instrument id from the host
+export type TrackInstrument = typeof TRACK_INSTRUMENTS[number] | (string & {})
+
+export type TrackData = {
+  id: string
+  name: string
+  color: string
+  channel: number  // MIDI channel 0-15
+  muted: boolean
+  solo: boolean
+  instrument: TrackInstrument
+}
+
 // Input type for notes that may be missing id or velocity
 export type NoteDataInput = {
   id?: string
+  trackId?: string
   pitch: number
   position: number
   duration: number
@@ -30,6 +50,11 @@ export interface PianoRollState {
   // Note data (pure, no Konva refs)
   notes: Map<string, NoteData>
 
+  // Tracks in display order; only notes on the active track are editable,
+  // the rest render as ghost notes
+  tracks: Map<string, TrackData>
+  activeTrackId: string
+
   // Selection
   selection: {
     selectedIds: Set<string>
@@ -51,8 +76,12 @@ export interface PianoRollState {
     baseQuarterNoteWidth: number  // px at zoom 1
     baseNoteHeight: number  // px at zoom 1
     subdivision: number  // 16 for 16th notes
-    numMeasures: number
     timeSignature: number
+    timeSignatureDenominator: number
+    bpm: number
+    tempoChanges: TempoChange[]  // tempo/meter map after position 0, sorted
+    meterChanges: MeterChange[]
+    ticksPerQuarter: number  // MIDI file resolution, kept from the last import
     maxLength: number  // max length in quarter notes
     backgroundColor1: string
     backgroundColor2: string
@@ -67,7 +96,7 @@ export interface PianoRollState {
     dragStartPos?: { x: number, y: number }
     draggedNoteInitialStates: Map<string, { position: number, pitch: number }>
     quantDragActivated: boolean
-    dragBeforeState?: string
+    dragBeforeState?: StateSnapshot
 
     // Resize state
     isResizing: boolean
@@ -75,7 +104,10 @@ export interface PianoRollState {
     resizeIsEnd: boolean  // true = resize end, false = resize start
     resizeInitialStates: Map<string, { position: number, duration: number }>
     quantResizeActivated: boolean
-    resizeBeforeState?: string
+    resizeBeforeState?: StateSnapshot
+
+    // Loop edge drag
+    loopEdgeDrag?: 'start' | 'end'
 
     // Marquee selection
     isMarqueeSelecting: boolean
@@ -89,9 +121,9 @@ export interface PianoRollState {
     createEmptyOverlapAdjustments: () => { toDelete: Set<string>, toTruncate: Map<string, number> }
   }
 
-  // Undo/redo (simple snapshot-based)
+  // Undo/redo (diff-based)
   command: {
-    stack?: CommandStack
+    stack?: CommandStack<StateSnapshot, StateDiff>
   }
 
   // Layers (Konva references for rendering)
@@ -109,6 +141,8 @@ export interface PianoRollState {
       lastSubdivision: number
       lastQuarterNoteWidth: number
       lastNoteHeight: number
+      lastMeterKey: string
+      lastMaxLength: number
     }
   }
 
@@ -128,18 +162,57 @@ export interface PianoRollState {
     element?: Konva.Line
   }
 
+  // Loop region (blue) - playback repeats between start and end while enabled
+  loop: {
+    enabled: boolean
+    start: number  // in quarter notes
+    end: number  // in quarter notes
+    band?: Konva.Rect
+    startEdge?: Konva.Rect  // draggable
+    endEdge?: Konva.Rect  // draggable
+  }
+
+  // Proposed replacement notes drawn over the roll until accepted or rejected
+  preview?: {
+    notes: NoteData[]
+    label: string  // history label used if the proposal is accepted
+  }
+
+  // MIDI recording in progress; its notes are already in `notes`
+  take?: Take
+
   // Optional callback to notify external listeners when state changes outside command stack
   notifyExternalChange?: () => void
 
-  // MIDI state
+  // MIDI state, mirrored from the host's manager whenever its devices change
   midi: {
     manager?: MIDIManager
     enabled: boolean
     selectedDeviceId: string | null
     availableDevices: MIDIDevice[]
+    outputRoutes: MIDIOutputRoute[]
   }
 }
 
+export const DEFAULT_TRACK_ID = 'track-1'
+
+export const createTrack = (id: string, index: number, overrides: Partial<TrackData> = {}): TrackData => ({
+  id,
+  name: `Track ${index + 1}`,
+  color: TRACK_COLORS[index % TRACK_COLORS.length]!,
+  channel: index % 16,
+  muted: false,
+  solo: false,
+  instrument: 'synth',
+  ...overrides
+})
+
+// A track is audible if it is soloed, or nothing is soloed and it is not muted
+export const isTrackAudible = (track: Pick<TrackData, 'muted' | 'solo'>, tracks: Iterable<Pick<TrackData, 'solo'>>): boolean => {
+  const anySolo = Array.from(tracks).some(t => t.solo)
+  return anySolo ? track.solo : !track.muted
+}
+
 export const createPianoRollState = (): PianoRollState => {
   const baseQuarterNoteWidth = 120
   const baseNoteHeight = 20
@@ -150,6 +223,9 @@ export const createPianoRollState = (): PianoRollState => {
 
     notes: new Map(),
 
+    tracks: new Map([[DEFAULT_TRACK_ID, createTrack(DEFAULT_TRACK_ID, 0)]]),
+    activeTrackId: DEFAULT_TRACK_ID,
+
     selection: {
       selectedIds: new Set(),
       selectionRect: undefined
@@ -168,8 +244,12 @@ export const createPianoRollState = (): PianoRollState => {
       baseQuarterNoteWidth,
       baseNoteHeight,
       subdivision: 16,
-      numMeasures: 100,
       timeSignature: 4,
+      timeSignatureDenominator: 4,
+      bpm: 120,
+      tempoChanges: [],
+      meterChanges: [],
+      ticksPerQuarter: 480,
       maxLength: 64,  // 16 bars * 4 beats = 64 quarter notes
       backgroundColor1: '#ddd',
       backgroundColor2: '#bbb',
@@ -220,7 +300,9 @@ export const createPianoRollState = (): PianoRollState => {
         lastScrollY: -1,
         lastSubdivision: -1,
         lastQuarterNoteWidth: -1,
-        lastNoteHeight: -1
+        lastNoteHeight: -1,
+        lastMeterKey: '',
+        lastMaxLength: -1
       }
     },
 
@@ -237,13 +319,24 @@ export const createPianoRollState = (): PianoRollState => {
       element: undefined
     },
 
+    loop: {
+      enabled: false,
+      start: 0,
+      end: 0
+    },
+
+    preview: undefined,
+
+    take: undefined,
+
     notifyExternalChange: undefined,
 
     midi: {
       manager: undefined,
       enabled: false,
       selectedDeviceId: null,
-      availableDevices: []
+      availableDevices: [],
+      outputRoutes: []
     }
   }
 }
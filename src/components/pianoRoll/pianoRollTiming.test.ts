@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import { parseMidiFile, writeMidiFile } from './midiFile'
+import {
+  clampNotesToLength,
+  createTempoConverter,
+  fitTempoMap,
+  getBarLength,
+  getBars,
+  MAX_TIMING_CHANGES,
+  resolveTiming,
+  type SongTiming
+} from './pianoRollTiming'
+
+const current: SongTiming = { bpm: 120, timeSignature: 4, timeSignatureDenominator: 4, maxLength: 64, tempoChanges: [], meterChanges: [] }
+
+describe('getBarLength', () => {
+  it('measures bars in quarter notes', () => {
+    expect(getBarLength({ timeSignature: 4, timeSignatureDenominator: 4 })).toBe(4)
+    expect(getBarLength({ timeSignature: 6, timeSignatureDenominator: 8 })).toBe(3)
+    expect(getBarLength({ timeSignature: 3, timeSignatureDenominator: 2 })).toBe(6)
+  })
+})
+
+describe('createTempoConverter', () => {
+  it('converts across tempo changes in both directions', () => {
+    const { toSeconds, toPosition } = createTempoConverter({ bpm: 120, tempoChanges: [{ position: 8, bpm: 60 }] })
+
+    expect(toSeconds(4)).toBe(2)
+    expect(toSeconds(8)).toBe(4)
+    expect(toSeconds(10)).toBe(6)
+    expect(toPosition(6)).toBe(10)
+    expect(toPosition(1)).toBe(2)
+  })
+})
+
+describe('getBars', () => {
+  it('starts a new bar at each meter change', () => {
+    const bars = getBars({ ...current, meterChanges: [{ position: 6, timeSignature: 6, timeSignatureDenominator: 8 }] }, 12)
+
+    expect(bars.map(bar => [bar.position, bar.length])).toEqual([[0, 4], [4, 2], [6, 3], [9, 3]])
+    expect(bars[2]).toMatchObject({ index: 2, timeSignature: 6, timeSignatureDenominator: 8 })
+  })
+
+  it('skips meters whose bars have no length', () => {
+    const bars = getBars({ ...current, meterChanges: [{ position: 4, timeSignature: 0, timeSignatureDenominator: 4 }] }, 12)
+
+    expect(bars.map(bar => bar.position)).toEqual([0])
+  })
+})
+
+describe('resolveTiming', () => {
+  it('keeps unchanged fields and rounds the length up to a whole bar', () => {
+    expect(resolveTiming(current, { timeSignature: 3 }).timing).toEqual({ ...current, timeSignature: 3, maxLength: 66 })
+    expect(resolveTiming(current, { timeSignature: 7, timeSignatureDenominator: 8, maxLength: 10 }).timing)
+      .toEqual({ ...current, timeSignature: 7, timeSignatureDenominator: 8, maxLength: 10.5 })
+  })
+
+  it('rejects out-of-range values without a timing', () => {
+    expect(resolveTiming(current, { bpm: 5 })).toEqual({ error: 'bpm must be between 20 and 300' })
+    expect(resolveTiming(current, { timeSignature: 2.5 }).error).toMatch(/timeSignature/)
+    expect(resolveTiming(current, { timeSignatureDenominator: 3 }).error).toMatch(/one of 1, 2, 4, 8, 16, 32/)
+    expect(resolveTiming(current, { maxLength: 0 }).error).toMatch(/maxLength/)
+    expect(resolveTiming(current, { tempoChanges: [{ position: 4, bpm: 400 }] }).error).toMatch(/^Tempo change at 4/)
+    expect(resolveTiming(current, { meterChanges: [{ position: -1, timeSignature: 3, timeSignatureDenominator: 4 }] }).error).toMatch(/positions/)
+  })
+
+  it('sorts changes, keeps one per position and drops the ones past the end', () => {
+    const { timing } = resolveTiming(current, {
+      maxLength: 16,
+      tempoChanges: [{ position: 12, bpm: 90 }, { position: 4, bpm: 100 }, { position: 12, bpm: 80 }, { position: 20, bpm: 60 }]
+    })
+
+    expect(timing!.tempoChanges).toEqual([{ position: 4, bpm: 100 }, { position: 12, bpm: 80 }])
+  })
+
+  it('uses a change at position 0 as the start value', () => {
+    const { timing } = resolveTiming(current, {
+      tempoChanges: [{ position: 0, bpm: 90 }],
+      meterChanges: [{ position: 0, timeSignature: 3, timeSignatureDenominator: 4 }]
+    })
+
+    expect(timing).toMatchObject({ bpm: 90, timeSignature: 3, timeSignatureDenominator: 4, tempoChanges: [], meterChanges: [] })
+  })
+
+  it('rounds the length up to the bar it ends in after a meter change', () => {
+    const meterChanges = [{ position: 4, timeSignature: 3, timeSignatureDenominator: 4 }]
+    expect(resolveTiming(current, { maxLength: 8, meterChanges }).timing!.maxLength).toBe(10)
+  })
+})
+
+describe('fitTempoMap', () => {
+  it('clamps a file\'s tempos to the supported range', () => {
+    const parsed = parseMidiFile(writeMidiFile([], { bpm: 400, tempoChanges: [{ position: 4, bpm: 10 }, { position: 8, bpm: 100 }] }))
+    const fitted = fitTempoMap(parsed, 16)
+
+    expect(fitted).toEqual({ bpm: 300, tempoChanges: [{ position: 4, bpm: 20 }, { position: 8, bpm: 100 }], adjusted: true })
+    expect(resolveTiming(current, { bpm: fitted.bpm, tempoChanges: fitted.tempoChanges }).error).toBeUndefined()
+  })
+
+  it('merges a dense tempo ramp into fewer changes that keep the song\'s length in time', () => {
+    const ramp = Array.from({ length: 600 }, (_, i) => ({ position: (i + 1) / 4, bpm: 60 + (i % 120) }))
+    const parsed = parseMidiFile(writeMidiFile([], { bpm: 60, tempoChanges: ramp }))
+    const fitted = fitTempoMap(parsed, 160)
+    const seconds = (timing: Pick<SongTiming, 'bpm' | 'tempoChanges'>, position: number) => createTempoConverter(timing).toSeconds(position)
+
+    expect(fitted.adjusted).toBe(true)
+    expect(fitted.tempoChanges.length).toBeLessThanOrEqual(MAX_TIMING_CHANGES)
+    expect(seconds(fitted, 160)).toBeCloseTo(seconds(parsed, 160), 3)
+    expect(resolveTiming(current, { bpm: fitted.bpm, maxLength: 160, tempoChanges: fitted.tempoChanges }).error).toBeUndefined()
+  })
+
+  it('leaves a tempo map that already fits alone', () => {
+    expect(fitTempoMap({ bpm: 90, tempoChanges: [{ position: 0, bpm: 100 }, { position: 4, bpm: 120 }] }, 16))
+      .toEqual({ bpm: 100, tempoChanges: [{ position: 4, bpm: 120 }], adjusted: false })
+  })
+})
+
+describe('clampNotesToLength', () => {
+  it('drops notes past the end and shortens the ones that run over', () => {
+    const notes = [
+      { id: 'a', pitch: 60, position: 0, duration: 1 },
+      { id: 'b', pitch: 60, position: 7, duration: 2 },
+      { id: 'c', pitch: 60, position: 8, duration: 1 }
+    ]
+
+    expect(clampNotesToLength(notes, 8)).toEqual([
+      notes[0],
+      { id: 'b', pitch: 60, position: 7, duration: 1 }
+    ])
+  })
+})
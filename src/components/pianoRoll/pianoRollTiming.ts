@@ -0,0 +1,264 @@
+import type { NoteDataInput, PianoRollState } from './pianoRollState'
+
+// Song-level timing: tempo, meter and length, plus tempo and meter changes
+// along the timeline. Positions and durations stay in quarter notes whatever
+// the meter, so a 6/8 bar is 3 quarter notes long.
+
+export interface TempoChange {
+  position: number  // quarter notes
+  bpm: number
+}
+
+export interface MeterChange {
+  position: number  // quarter notes; a new bar starts here
+  timeSignature: number
+  timeSignatureDenominator: number
+}
+
+export interface SongTiming {
+  bpm: number                       // quarter notes per minute at the start
+  timeSignature: number             // beats per bar at the start
+  timeSignatureDenominator: number  // beat unit: 4 = quarter, 8 = eighth
+  maxLength: number                 // song length in quarter notes
+  tempoChanges: TempoChange[]       // later changes, sorted by position
+  meterChanges: MeterChange[]
+}
+
+type Meter = Pick<SongTiming, 'timeSignature' | 'timeSignatureDenominator'>
+
+export interface Bar extends Meter {
+  index: number     // 0-based
+  position: number  // start in quarter notes
+  length: number    // shorter than the meter's bar if the next meter change cuts it off
+}
+
+export const MIN_BPM = 20
+export const MAX_BPM = 300
+export const MAX_TIME_SIGNATURE_NUMERATOR = 32
+export const TIME_SIGNATURE_DENOMINATORS = [1, 2, 4, 8, 16, 32]
+export const MAX_SONG_LENGTH = 4096
+export const MAX_TIMING_CHANGES = 256
+
+// Length of one bar / one beat in quarter notes
+export function getBarLength(meter: Meter): number {
+  return meter.timeSignature * 4 / meter.timeSignatureDenominator
+}
+
+export function getBeatLength(meter: Pick<Meter, 'timeSignatureDenominator'>): number {
+  return 4 / meter.timeSignatureDenominator
+}
+
+export function getTiming(state: PianoRollState): SongTiming {
+  const { bpm, timeSignature, timeSignatureDenominator, maxLength, tempoChanges, meterChanges } = state.grid
+  return {
+    bpm,
+    timeSignature,
+    timeSignatureDenominator,
+    maxLength,
+    tempoChanges: tempoChanges.map(change => ({ ...change })),
+    meterChanges: meterChanges.map(change => ({ ...change }))
+  }
+}
+
+export function applyTiming(state: PianoRollState, timing: SongTiming) {
+  state.grid.bpm = timing.bpm
+  state.grid.timeSignature = timing.timeSignature
+  state.grid.timeSignatureDenominator = timing.timeSignatureDenominator
+  state.grid.maxLength = timing.maxLength
+  state.grid.tempoChanges = timing.tempoChanges.map(change => ({ ...change }))
+  state.grid.meterChanges = timing.meterChanges.map(change => ({ ...change }))
+  state.needsRedraw = true
+}
+
+// ===== Tempo and meter map =====
+
+const lastOf = <T>(items: T[]): T | undefined => items[items.length - 1]
+
+export function getTempoSegments(timing: Pick<SongTiming, 'bpm' | 'tempoChanges'>): TempoChange[] {
+  return [{ position: 0, bpm: timing.bpm }, ...timing.tempoChanges]
+}
+
+export function getMeterSegments(timing: Meter & Pick<SongTiming, 'meterChanges'>): MeterChange[] {
+  return [{ position: 0, timeSignature: timing.timeSignature, timeSignatureDenominator: timing.timeSignatureDenominator }, ...timing.meterChanges]
+}
+
+// Converts between quarter-note positions and seconds from the start of the song
+export function createTempoConverter(timing: Pick<SongTiming, 'bpm' | 'tempoChanges'>) {
+  const segments = getTempoSegments(timing)
+  const startSeconds: number[] = [0]
+  for (let i = 1; i < segments.length; i++) {
+    const previous = segments[i - 1]!
+    startSeconds.push(startSeconds[i - 1]! + (segments[i]!.position - previous.position) * 60 / previous.bpm)
+  }
+
+  const toSeconds = (position: number): number => {
+    let i = segments.length - 1
+    while (i > 0 && segments[i]!.position > position) i--
+    return startSeconds[i]! + (position - segments[i]!.position) * 60 / segments[i]!.bpm
+  }
+
+  const toPosition = (seconds: number): number => {
+    let i = segments.length - 1
+    while (i > 0 && startSeconds[i]! > seconds) i--
+    return segments[i]!.position + (seconds - startSeconds[i]!) * segments[i]!.bpm / 60
+  }
+
+  return { toSeconds, toPosition }
+}
+
+// Bars that start before `end`; each meter change starts a new bar
+export function getBars(timing: Meter & Pick<SongTiming, 'meterChanges'>, end: number): Bar[] {
+  const meters = getMeterSegments(timing)
+  const bars: Bar[] = []
+
+  meters.forEach((meter, i) => {
+    const segmentEnd = meters[i + 1]?.position ?? Infinity
+    const barLength = getBarLength(meter)
+    // A zero-length bar would never reach `end`
+    if (!(barLength > 0)) return
+    for (let position = meter.position; position < segmentEnd && position < end; position += barLength) {
+      bars.push({
+        index: bars.length,
+        position,
+        length: Math.min(barLength, segmentEnd - position),
+        timeSignature: meter.timeSignature,
+        timeSignatureDenominator: meter.timeSignatureDenominator
+      })
+    }
+  })
+
+  return bars
+}
+
+// End of the bar that `length` falls in (or `length` itself on a bar line)
+export function roundUpToBar(timing: Meter & Pick<SongTiming, 'meterChanges'>, length: number): number {
+  const last = lastOf(getBars(timing, length - 1e-9))
+  return last ? last.position + last.length : length
+}
+
+// Song length that holds exactly `count` bars
+export function getLengthForBars(timing: Meter & Pick<SongTiming, 'meterChanges'>, count: number): number {
+  if (!Number.isFinite(count)) return NaN
+  const bars = getBars(timing, MAX_SONG_LENGTH)
+  const last = bars[Math.min(Math.max(1, Math.round(count)), bars.length) - 1]!
+  return last.position + last.length
+}
+
+// ===== Validation =====
+
+function checkBpm(bpm: number): string | null {
+  return Number.isFinite(bpm) && bpm >= MIN_BPM && bpm <= MAX_BPM ? null : `bpm must be between ${MIN_BPM} and ${MAX_BPM}`
+}
+
+function checkMeter(meter: Meter): string | null {
+  if (!Number.isInteger(meter.timeSignature) || meter.timeSignature < 1 || meter.timeSignature > MAX_TIME_SIGNATURE_NUMERATOR) {
+    return `timeSignature must be a whole number from 1 to ${MAX_TIME_SIGNATURE_NUMERATOR}`
+  }
+  if (!TIME_SIGNATURE_DENOMINATORS.includes(meter.timeSignatureDenominator)) {
+    return `timeSignatureDenominator must be one of ${TIME_SIGNATURE_DENOMINATORS.join(', ')}`
+  }
+  return null
+}
+
+// Sorted by position, one change per position (the last one given wins),
+// without changes at 0 (the song's start values) or past the end
+function normalizeChanges<T extends { position: number }>(changes: T[], maxLength: number): T[] {
+  const byPosition = new Map<number, T>()
+  changes.forEach(change => byPosition.set(change.position, { ...change }))
+  return Array.from(byPosition.values())
+    .filter(change => change.position > 0 && change.position < maxLength)
+    .sort((a, b) => a.position - b.position)
+}
+
+// Validate a partial update against the current timing. The length is rounded
+// up to a whole number of bars so the song always ends on a bar line.
+export function resolveTiming(current: SongTiming, patch: Partial<SongTiming>): { timing?: SongTiming, error?: string } {
+  const next = { ...current, ...patch }
+
+  const error = checkBpm(next.bpm) ?? checkMeter(next)
+  if (error) return { error }
+  if (!Number.isFinite(next.maxLength) || next.maxLength <= 0 || next.maxLength > MAX_SONG_LENGTH) {
+    return { error: `maxLength must be more than 0 and at most ${MAX_SONG_LENGTH} quarter notes` }
+  }
+  if (next.tempoChanges.length > MAX_TIMING_CHANGES || next.meterChanges.length > MAX_TIMING_CHANGES) {
+    return { error: `At most ${MAX_TIMING_CHANGES} tempo and ${MAX_TIMING_CHANGES} meter changes are supported` }
+  }
+
+  for (const change of [...next.tempoChanges, ...next.meterChanges]) {
+    if (!Number.isFinite(change.position) || change.position < 0) {
+      return { error: 'Tempo and meter change positions must be 0 or more quarter notes' }
+    }
+  }
+  for (const change of next.tempoChanges) {
+    const tempoError = checkBpm(change.bpm)
+    if (tempoError) return { error: `Tempo change at ${change.position}: ${tempoError}` }
+  }
+  for (const change of next.meterChanges) {
+    const meterError = checkMeter(change)
+    if (meterError) return { error: `Meter change at ${change.position}: ${meterError}` }
+  }
+
+  // A change at position 0 replaces the start value
+  const startTempo = lastOf(next.tempoChanges.filter(change => change.position === 0))
+  const startMeter = lastOf(next.meterChanges.filter(change => change.position === 0))
+  if (startTempo) next.bpm = startTempo.bpm
+  if (startMeter) {
+    next.timeSignature = startMeter.timeSignature
+    next.timeSignatureDenominator = startMeter.timeSignatureDenominator
+  }
+
+  const meterChanges = normalizeChanges(next.meterChanges, next.maxLength)
+  const meterMap = { ...next, meterChanges }
+  let maxLength = roundUpToBar(meterMap, next.maxLength)
+  if (maxLength > MAX_SONG_LENGTH) {
+    // Step back to the last bar line that fits
+    const lastFitting = lastOf(getBars(meterMap, MAX_SONG_LENGTH).filter(bar => bar.position + bar.length <= MAX_SONG_LENGTH))
+    maxLength = lastFitting ? lastFitting.position + lastFitting.length : MAX_SONG_LENGTH
+  }
+
+  return {
+    timing: {
+      ...next,
+      bpm: Math.round(next.bpm * 1000) / 1000,
+      maxLength,
+      tempoChanges: normalizeChanges(next.tempoChanges, maxLength).map(change => ({ ...change, bpm: Math.round(change.bpm * 1000) / 1000 })),
+      meterChanges
+    }
+  }
+}
+
+// Fits a file's tempo map to what the roll supports. Tempos are clamped to
+// MIN_BPM..MAX_BPM, and past MAX_TIMING_CHANGES changes neighbouring ones are
+// merged into one that takes as long as they did, so the notes after each
+// merged stretch stay where they were. `adjusted` says whether anything changed.
+export function fitTempoMap(timing: Pick<SongTiming, 'bpm' | 'tempoChanges'>, maxLength: number): Pick<SongTiming, 'bpm' | 'tempoChanges'> & { adjusted: boolean } {
+  const clamp = (bpm: number) => Math.min(MAX_BPM, Math.max(MIN_BPM, bpm))
+  const start = lastOf(timing.tempoChanges.filter(change => change.position === 0))?.bpm ?? timing.bpm
+  const segments = [{ position: 0, bpm: start }, ...normalizeChanges(timing.tempoChanges, maxLength)]
+  let adjusted = segments.some(segment => clamp(segment.bpm) !== segment.bpm)
+  let fitted = segments.map(segment => ({ ...segment, bpm: clamp(segment.bpm) }))
+
+  if (fitted.length - 1 > MAX_TIMING_CHANGES) {
+    const size = Math.ceil(fitted.length / (MAX_TIMING_CHANGES + 1))
+    const ends = [...fitted.slice(1).map(segment => segment.position), maxLength]
+    const merged: TempoChange[] = []
+    for (let i = 0; i < fitted.length; i += size) {
+      const group = fitted.slice(i, i + size)
+      const start = group[0]!.position
+      const end = ends[i + group.length - 1]!
+      const minutes = group.reduce((sum, segment, j) => sum + (ends[i + j]! - segment.position) / segment.bpm, 0)
+      merged.push({ position: start, bpm: (end - start) / minutes })
+    }
+    fitted = merged
+    adjusted = true
+  }
+
+  return { bpm: fitted[0]!.bpm, tempoChanges: fitted.slice(1), adjusted }
+}
+
+// Drop notes that start past the end and shorten the ones that run over it
+export function clampNotesToLength<T extends NoteDataInput>(notes: T[], maxLength: number): T[] {
+  return notes
+    .filter(note => note.position < maxLength)
+    .map(note => note.position + note.duration > maxLength ? { ...note, duration: maxLength - note.position } : note)
+}
@@ -0,0 +1,55 @@
+import type { PianoRollState, TrackData } from './pianoRollState'
+import { createTrack } from './pianoRollState'
+import { uid } from './pianoRollUtils'
+
+// Pure state helpers for tracks. Callers wrap structural changes in a command
+// so they are undoable alongside the notes they affect.
+
+export function addTrack(state: PianoRollState, overrides: Partial<Omit<TrackData, 'id'>> = {}, id = uid('track_')): TrackData {
+  const track = createTrack(id, state.tracks.size, overrides)
+  state.tracks.set(track.id, track)
+  state.needsRedraw = true
+  return track
+}
+
+export function updateTrack(state: PianoRollState, trackId: string, patch: Partial<Omit<TrackData, 'id'>>): boolean {
+  const track = state.tracks.get(trackId)
+  if (!track) return false
+
+  Object.assign(track, patch)
+  if (patch.channel !== undefined) {
+    track.channel = Math.max(0, Math.min(15, Math.round(patch.channel)))
+  }
+  state.needsRedraw = true
+  return true
+}
+
+// Removes the track and all of its notes. The last remaining track cannot be removed.
+export function removeTrack(state: PianoRollState, trackId: string): boolean {
+  if (!state.tracks.has(trackId) || state.tracks.size <= 1) return false
+
+  state.notes.forEach((note, id) => {
+    if (note.trackId === trackId) {
+      state.notes.delete(id)
+      state.selection.selectedIds.delete(id)
+    }
+  })
+  state.tracks.delete(trackId)
+
+  if (state.activeTrackId === trackId) {
+    state.activeTrackId = state.tracks.keys().next().value!
+  }
+
+  state.needsRedraw = true
+  return true
+}
+
+export function setActiveTrack(state: PianoRollState, trackId: string): boolean {
+  if (!state.tracks.has(trackId) || state.activeTrackId === trackId) return false
+
+  // Selection is always confined to the active track
+  state.selection.selectedIds.clear()
+  state.activeTrackId = trackId
+  state.needsRedraw = true
+  return true
+}
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest'
+import { createPianoRollState, DEFAULT_TRACK_ID, type NoteData, type PianoRollState } from './pianoRollState'
+import {
+  applySnapToNoteStart,
+  calculateOverlapAdjustments,
+  executeOverlapChanges,
+  quantize,
+  quantizeToGrid,
+  updateOverlapPreview
+} from './pianoRollUtils'
+
+function addNote(state: PianoRollState, id: string, fields: Partial<NoteData> = {}): NoteData {
+  const note: NoteData = {
+    id,
+    trackId: DEFAULT_TRACK_ID,
+    pitch: 60,
+    position: 0,
+    duration: 1,
+    velocity: 100,
+    ...fields
+  }
+  state.notes.set(id, note)
+  return note
+}
+
+describe('quantizeToGrid', () => {
+  it('floors to the start of the grid cell', () => {
+    expect(quantizeToGrid(1.3, 16)).toBe(1.25)
+    expect(quantizeToGrid(1.24, 16)).toBe(1)
+    expect(quantizeToGrid(0.9, 4)).toBe(0)
+    expect(quantizeToGrid(2, 8)).toBe(2)
+  })
+})
+
+describe('quantize', () => {
+  it('rounds to the nearest interval', () => {
+    expect(quantize(1.3, 0.25)).toBe(1.25)
+    expect(quantize(1.4, 0.25)).toBe(1.5)
+    expect(quantize(-0.6, 0.5)).toBe(-0.5)
+  })
+})
+
+describe('calculateOverlapAdjustments', () => {
+  it('truncates a note that starts before the reference note', () => {
+    const state = createPianoRollState()
+    addNote(state, 'moved', { position: 2, duration: 1 })
+    addNote(state, 'long', { position: 0, duration: 4 })
+
+    const { toDelete, toTruncate } = calculateOverlapAdjustments(state, ['moved'])
+
+    expect(toDelete.size).toBe(0)
+    expect(toTruncate.get('long')).toBe(2)
+  })
+
+  it('deletes a note that starts inside the reference note', () => {
+    const state = createPianoRollState()
+    addNote(state, 'moved', { position: 0, duration: 2 })
+    addNote(state, 'covered', { position: 1, duration: 4 })
+
+    const { toDelete, toTruncate } = calculateOverlapAdjustments(state, ['moved'])
+
+    expect([...toDelete]).toEqual(['covered'])
+    expect(toTruncate.size).toBe(0)
+  })
+
+  it('deletes a note with the same start instead of truncating it to zero', () => {
+    const state = createPianoRollState()
+    addNote(state, 'moved', { position: 1 })
+    addNote(state, 'same', { position: 1, duration: 3 })
+
+    const { toDelete, toTruncate } = calculateOverlapAdjustments(state, ['moved'])
+
+    expect(toDelete.has('same')).toBe(true)
+    expect(toTruncate.has('same')).toBe(false)
+  })
+
+  it('prefers deletion when two reference notes disagree', () => {
+    const state = createPianoRollState()
+    addNote(state, 'a', { position: 2, duration: 1 })
+    addNote(state, 'b', { position: 0, duration: 1 })
+    addNote(state, 'other', { position: 0, duration: 4 })
+
+    // 'a' would truncate 'other' to 2, 'b' covers its start and deletes it
+    const { toDelete, toTruncate } = calculateOverlapAdjustments(state, ['a', 'b'])
+
+    expect(toDelete.has('other')).toBe(true)
+    expect(toTruncate.has('other')).toBe(false)
+  })
+
+  it('ignores other pitches, touching notes and other tracks', () => {
+    const state = createPianoRollState()
+    addNote(state, 'moved', { position: 2, duration: 1 })
+    addNote(state, 'otherPitch', { pitch: 61, position: 0, duration: 4 })
+    addNote(state, 'touching', { position: 3, duration: 1 })
+    addNote(state, 'before', { position: 1, duration: 1 })
+    addNote(state, 'otherTrack', { trackId: 'track-2', position: 0, duration: 4 })
+
+    const { toDelete, toTruncate } = calculateOverlapAdjustments(state, ['moved'])
+
+    expect(toDelete.size).toBe(0)
+    expect(toTruncate.size).toBe(0)
+  })
+})
+
+describe('executeOverlapChanges', () => {
+  it('applies truncation and deletion for explicit reference ids', () => {
+    const state = createPianoRollState()
+    addNote(state, 'moved', { position: 2, duration: 2 })
+    addNote(state, 'long', { position: 0, duration: 8 })
+    addNote(state, 'covered', { position: 3, duration: 1 })
+    state.selection.selectedIds.add('covered')
+
+    executeOverlapChanges(state, ['moved'])
+
+    expect(state.notes.get('long')!.duration).toBe(2)
+    expect(state.notes.has('covered')).toBe(false)
+    expect(state.selection.selectedIds.has('covered')).toBe(false)
+    expect(state.needsRedraw).toBe(true)
+  })
+
+  it('commits the drag preview when no reference ids are given', () => {
+    const state = createPianoRollState()
+    addNote(state, 'moved', { position: 1, duration: 1 })
+    addNote(state, 'long', { position: 0, duration: 4 })
+    state.selection.selectedIds.add('moved')
+    updateOverlapPreview(state)
+
+    expect(state.interaction.truncatedNotes.get('long')).toBe(1)
+
+    // Later edits that haven't refreshed the preview still commit what was shown
+    state.notes.get('moved')!.position = 3
+    executeOverlapChanges(state)
+
+    expect(state.notes.get('long')!.duration).toBe(1)
+  })
+
+  it('clears a stale preview when there is nothing to change', () => {
+    const state = createPianoRollState()
+    addNote(state, 'moved', { position: 0 })
+    state.interaction.hiddenNoteIds.add('ghost')
+
+    executeOverlapChanges(state, ['moved'])
+
+    expect(state.interaction.hiddenNoteIds.size).toBe(0)
+  })
+})
+
+describe('applySnapToNoteStart', () => {
+  it('moves the whole selection by the offset of the first snapping note', () => {
+    const state = createPianoRollState()
+    addNote(state, 'a', { position: 2.05 })
+    addNote(state, 'b', { pitch: 64, position: 3.05 })
+    addNote(state, 'target', { pitch: 67, position: 2 })
+    state.selection.selectedIds = new Set(['a', 'b'])
+
+    applySnapToNoteStart(state)
+
+    expect(state.notes.get('a')!.position).toBeCloseTo(2)
+    expect(state.notes.get('b')!.position).toBeCloseTo(3)
+    expect(state.notes.get('target')!.position).toBe(2)
+  })
+
+  it('leaves notes alone outside the snap threshold', () => {
+    const state = createPianoRollState()
+    addNote(state, 'a', { position: 2.2 })
+    addNote(state, 'target', { pitch: 67, position: 2 })
+    state.selection.selectedIds = new Set(['a'])
+
+    applySnapToNoteStart(state)
+
+    expect(state.notes.get('a')!.position).toBe(2.2)
+  })
+})
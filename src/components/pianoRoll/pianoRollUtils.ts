@@ -96,6 +96,8 @@ export function getNotesInRect(
   const intersectingIds: string[] = []
 
   state.notes.forEach((note, id) => {
+    if (note.trackId !== state.activeTrackId) return
+
     const noteScreen = pitchPositionToScreen(note.pitch, note.position, state)
     const noteWidth = note.duration * quarterNoteWidth
 
@@ -120,9 +122,9 @@ export function getNotesInRect(
   return intersectingIds
 }
 
-// Check if two notes overlap (same pitch, overlapping time)
+// Check if two notes overlap (same track and pitch, overlapping time)
 export function notesOverlap(note1: NoteData, note2: NoteData): boolean {
-  if (note1.pitch !== note2.pitch) return false
+  if (note1.pitch !== note2.pitch || note1.trackId !== note2.trackId) return false
 
   const note1End = note1.position + note1.duration
   const note2End = note2.position + note2.duration
@@ -157,6 +159,7 @@ export function calculateOverlapAdjustments(
     state.notes.forEach((otherNote, otherId) => {
       if (referenceSet.has(otherId)) return
       if (otherNote.pitch !== selectedNote.pitch) return
+      if (otherNote.trackId !== selectedNote.trackId) return
 
       const otherEnd = otherNote.position + otherNote.duration
 
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import { parseSoundFont, SoundFontError } from './soundFont'
+
+// ---- A minimal SF2 writer for the tests ----
+
+const ascii = (text: string, length = text.length) =>
+  Array.from({ length }, (_, i) => i < text.length ? text.charCodeAt(i) : 0)
+const u16 = (value: number) => [value & 0xff, (value >> 8) & 0xff]
+const u32 = (value: number) => [...u16(value & 0xffff), ...u16(value >>> 16)]
+
+function chunk(id: string, data: number[]): number[] {
+  return [...ascii(id), ...u32(data.length), ...data, ...(data.length % 2 ? [0] : [])]
+}
+
+const list = (type: string, chunks: number[][]) => chunk('LIST', [...ascii(type), ...chunks.flat()])
+
+// Generators are [operator, amount] pairs; key ranges are given as lo | hi << 8
+interface TestZone { gens: Array<[number, number]> }
+
+function zones(all: TestZone[][]) {
+  const bags: number[] = []
+  const gens: number[] = []
+  let genIndex = 0
+  const firstBags: number[] = []
+  all.forEach(group => {
+    firstBags.push(bags.length / 4)
+    group.forEach(zone => {
+      bags.push(...u16(genIndex), ...u16(0))
+      zone.gens.forEach(([operator, amount]) => gens.push(...u16(operator), ...u16(amount)))
+      genIndex += zone.gens.length
+    })
+  })
+  firstBags.push(bags.length / 4)
+  bags.push(...u16(genIndex), ...u16(0))
+  gens.push(0, 0, 0, 0)
+  return { bags, gens, firstBags }
+}
+
+function buildSoundFont() {
+  // Two samples of four frames each
+  const smpl = [0, 16384, -16384, 32767, 100, 200, 300, 400].flatMap(value => u16(value & 0xffff))
+  const sample = (name: string, start: number, pitch: number) =>
+    [...ascii(name, 20), ...u32(start), ...u32(start + 4), ...u32(start), ...u32(start + 4), ...u32(22050), pitch, 0, ...u16(0), ...u16(1)]
+  const shdr = [...sample('low', 0, 48), ...sample('high', 4, 72), ...ascii('EOS', 46)]
+
+  // One instrument: a global zone with a key range, then a zone per sample
+  const instrumentZones = zones([[
+    { gens: [[43, 0 | (100 << 8)]] },
+    { gens: [[43, 0 | (59 << 8)], [53, 0]] },
+    { gens: [[58, 70], [53, 1]] }
+  ]])
+  const inst = [...ascii('Keys', 20), ...u16(0), ...ascii('EOI', 20), ...u16(instrumentZones.firstBags[1]!)]
+
+  // Two presets on the instrument, the second only above C4
+  const presetZones = zones([[{ gens: [[41, 0]] }], [{ gens: [[43, 60 | (127 << 8)], [41, 0]] }]])
+  const preset = (name: string, program: number, bag: number) =>
+    [...ascii(name, 20), ...u16(program), ...u16(0), ...u16(bag), ...u32(0), ...u32(0), ...u32(0)]
+  const phdr = [
+    ...preset('Piano', 1, 0),
+    ...preset('Upper', 0, presetZones.firstBags[1]!),
+    ...preset('EOP', 0, presetZones.firstBags[2]!)
+  ]
+
+  const body = [
+    ...ascii('sfbk'),
+    ...list('INFO', [chunk('ifil', [...u16(2), ...u16(1)])]),
+    ...list('sdta', [chunk('smpl', smpl)]),
+    ...list('pdta', [
+      chunk('phdr', phdr),
+      chunk('pbag', presetZones.bags),
+      chunk('pmod', new Array(10).fill(0)),
+      chunk('pgen', presetZones.gens),
+      chunk('inst', inst),
+      chunk('ibag', instrumentZones.bags),
+      chunk('imod', new Array(10).fill(0)),
+      chunk('igen', instrumentZones.gens),
+      chunk('shdr', shdr)
+    ])
+  ]
+  return new Uint8Array([...ascii('RIFF'), ...u32(body.length), ...body])
+}
+
+describe('parseSoundFont', () => {
+  it('reads presets with their samples, key ranges and root keys', () => {
+    const presets = parseSoundFont(buildSoundFont())
+
+    expect(presets.map(preset => [preset.name, preset.program])).toEqual([['Upper', 0], ['Piano', 1]])
+
+    const [low, high] = presets[1]!.samples
+    expect(low).toMatchObject({ name: 'low', keyRange: [0, 59], rootKey: 48, sampleRate: 22050 })
+    expect(Array.from(low!.data)).toEqual([0, 0.5, -0.5, 32767 / 32768])
+    // The global zone's range applies, and the root key generator wins
+    expect(high).toMatchObject({ name: 'high', keyRange: [0, 100], rootKey: 70 })
+
+    // The preset's range narrows the instrument's and drops what falls outside
+    expect(presets[0]!.samples.map(sample => [sample.name, sample.keyRange])).toEqual([['high', [60, 100]]])
+  })
+
+  it('rejects files that are not SoundFonts or are cut short', () => {
+    expect(() => parseSoundFont(new Uint8Array(16))).toThrow(SoundFontError)
+    const truncated = buildSoundFont().slice(0, 200)
+    expect(() => parseSoundFont(truncated)).toThrow(SoundFontError)
+  })
+})
@@ -0,0 +1,225 @@
+// SoundFont 2 (.sf2) reading: presets with their samples, key ranges and root
+// keys, enough to play them through a sampler. Modulators, filters and the
+// generators that shape the sound are not read; loops and envelopes come from
+// the instrument settings instead.
+
+export interface SoundFontSample {
+  name: string
+  keyRange: [number, number]  // MIDI pitches, inclusive
+  rootKey: number             // pitch the sample plays at unchanged
+  sampleRate: number
+  data: Float32Array          // mono, -1 to 1
+}
+
+export interface SoundFontPreset {
+  name: string
+  bank: number
+  program: number
+  samples: SoundFontSample[]
+}
+
+export class SoundFontError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SoundFontError'
+  }
+}
+
+// Generator numbers used here (SF2.04 section 8.1.2)
+const GEN_INSTRUMENT = 41
+const GEN_KEY_RANGE = 43
+const GEN_SAMPLE_ID = 53
+const GEN_OVERRIDING_ROOT_KEY = 58
+
+// Samples in ROM or linked to another file can't be played from the file alone
+const SAMPLE_TYPE_ROM = 0x8000
+
+// ================= Chunks =================
+
+interface Chunk {
+  id: string
+  start: number  // offset of the data
+  size: number
+}
+
+function readAscii(view: DataView, offset: number, length: number): string {
+  let text = ''
+  for (let i = 0; i < length; i++) {
+    const code = view.getUint8(offset + i)
+    if (code === 0) break
+    text += String.fromCharCode(code)
+  }
+  return text
+}
+
+// Sub-chunks between `start` and `end`; chunk data is padded to an even length
+function readChunks(view: DataView, start: number, end: number): Chunk[] {
+  const chunks: Chunk[] = []
+  let offset = start
+  while (offset + 8 <= end) {
+    const id = readAscii(view, offset, 4)
+    const size = view.getUint32(offset + 4, true)
+    if (offset + 8 + size > end) throw new SoundFontError(`Chunk "${id}" runs past the end of the file`)
+    chunks.push({ id, start: offset + 8, size })
+    offset += 8 + size + (size % 2)
+  }
+  return chunks
+}
+
+// The sub-chunks of the LIST chunk of the given type
+function readList(view: DataView, chunks: Chunk[], type: string): Map<string, Chunk> {
+  const list = chunks.find(chunk => chunk.id === 'LIST' && readAscii(view, chunk.start, 4) === type)
+  if (!list) throw new SoundFontError(`Missing "${type}" list`)
+  return new Map(readChunks(view, list.start + 4, list.start + list.size).map(chunk => [chunk.id, chunk]))
+}
+
+function requireChunk(chunks: Map<string, Chunk>, id: string, recordSize: number): Chunk {
+  const chunk = chunks.get(id)
+  if (!chunk || chunk.size % recordSize !== 0 || chunk.size < recordSize * 2) {
+    throw new SoundFontError(`Missing or malformed "${id}" chunk`)
+  }
+  return chunk
+}
+
+// ================= Zones =================
+
+interface Generators {
+  keyRange?: [number, number]
+  rootKey?: number
+  instrument?: number
+  sampleId?: number
+}
+
+// Every zone's generators; `bags` index into `gens`, one past the last zone ends it
+function readZones(view: DataView, bags: Chunk, gens: Chunk, firstBag: number, endBag: number): Generators[] {
+  const zones: Generators[] = []
+  for (let bag = firstBag; bag < endBag; bag++) {
+    const firstGen = view.getUint16(bags.start + bag * 4, true)
+    const endGen = view.getUint16(bags.start + (bag + 1) * 4, true)
+    const zone: Generators = {}
+    for (let gen = firstGen; gen < endGen; gen++) {
+      const offset = gens.start + gen * 4
+      const operator = view.getUint16(offset, true)
+      if (operator === GEN_KEY_RANGE) {
+        zone.keyRange = [view.getUint8(offset + 2), view.getUint8(offset + 3)]
+      } else if (operator === GEN_OVERRIDING_ROOT_KEY) {
+        const key = view.getInt16(offset + 2, true)
+        if (key >= 0 && key <= 127) zone.rootKey = key
+      } else if (operator === GEN_INSTRUMENT) {
+        zone.instrument = view.getUint16(offset + 2, true)
+      } else if (operator === GEN_SAMPLE_ID) {
+        zone.sampleId = view.getUint16(offset + 2, true)
+      }
+    }
+    zones.push(zone)
+  }
+  return zones
+}
+
+// A first zone without an instrument/sample is the global zone; its values
+// are the defaults for the others
+function splitGlobalZone(zones: Generators[], key: 'instrument' | 'sampleId'): { global: Generators, zones: Generators[] } {
+  if (zones.length > 0 && zones[0]![key] === undefined) {
+    return { global: zones[0]!, zones: zones.slice(1).filter(zone => zone[key] !== undefined) }
+  }
+  return { global: {}, zones: zones.filter(zone => zone[key] !== undefined) }
+}
+
+const intersectRanges = (a: [number, number], b: [number, number]): [number, number] | null => {
+  const range: [number, number] = [Math.max(a[0], b[0]), Math.min(a[1], b[1])]
+  return range[0] <= range[1] ? range : null
+}
+
+// ================= Reading =================
+
+// Throws SoundFontError for anything that isn't a readable SF2 file
+export function parseSoundFont(data: ArrayBuffer | Uint8Array): SoundFontPreset[] {
+  try {
+    return readSoundFont(data)
+  } catch (error) {
+    // An index pointing outside its chunk
+    if (error instanceof RangeError) throw new SoundFontError('The SoundFont is truncated or malformed')
+    throw error
+  }
+}
+
+function readSoundFont(data: ArrayBuffer | Uint8Array): SoundFontPreset[] {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+  if (bytes.length < 12 || readAscii(view, 0, 4) !== 'RIFF' || readAscii(view, 8, 4) !== 'sfbk') {
+    throw new SoundFontError('Not a SoundFont 2 file (missing RIFF sfbk header)')
+  }
+  const top = readChunks(view, 12, Math.min(bytes.length, 8 + view.getUint32(4, true)))
+  const sdta = readList(view, top, 'sdta')
+  const pdta = readList(view, top, 'pdta')
+
+  const smpl = sdta.get('smpl')
+  if (!smpl) throw new SoundFontError('The file has no sample data')
+  const phdr = requireChunk(pdta, 'phdr', 38)
+  const pbag = requireChunk(pdta, 'pbag', 4)
+  const pgen = requireChunk(pdta, 'pgen', 4)
+  const inst = requireChunk(pdta, 'inst', 22)
+  const ibag = requireChunk(pdta, 'ibag', 4)
+  const igen = requireChunk(pdta, 'igen', 4)
+  const shdr = requireChunk(pdta, 'shdr', 46)
+
+  const sampleCount = shdr.size / 46 - 1
+  const instrumentCount = inst.size / 22 - 1
+  const sampleFrames = smpl.size / 2
+
+  const readSample = (index: number, keyRange: [number, number], rootKey: number | undefined): SoundFontSample | null => {
+    if (index >= sampleCount) return null
+    const offset = shdr.start + index * 46
+    const start = view.getUint32(offset + 20, true)
+    const end = view.getUint32(offset + 24, true)
+    const sampleType = view.getUint16(offset + 44, true)
+    if ((sampleType & SAMPLE_TYPE_ROM) || end <= start || end > sampleFrames) return null
+
+    const samples = new Float32Array(end - start)
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = view.getInt16(smpl.start + (start + i) * 2, true) / 32768
+    }
+    const originalPitch = view.getUint8(offset + 40)
+    return {
+      name: readAscii(view, offset, 20),
+      keyRange,
+      // 255 means unpitched; such samples play at middle C
+      rootKey: rootKey ?? (originalPitch <= 127 ? originalPitch : 60),
+      sampleRate: view.getUint32(offset + 36, true),
+      data: samples
+    }
+  }
+
+  const readInstrument = (index: number, presetRange: [number, number]): SoundFontSample[] => {
+    if (index >= instrumentCount) return []
+    const firstBag = view.getUint16(inst.start + index * 22 + 20, true)
+    const endBag = view.getUint16(inst.start + (index + 1) * 22 + 20, true)
+    const { global, zones } = splitGlobalZone(readZones(view, ibag, igen, firstBag, endBag), 'sampleId')
+
+    return zones.flatMap(zone => {
+      const range = intersectRanges(presetRange, zone.keyRange ?? global.keyRange ?? [0, 127])
+      const sample = range && readSample(zone.sampleId!, range, zone.rootKey ?? global.rootKey)
+      return sample ? [sample] : []
+    })
+  }
+
+  const presets: SoundFontPreset[] = []
+  for (let i = 0; i < phdr.size / 38 - 1; i++) {
+    const offset = phdr.start + i * 38
+    const firstBag = view.getUint16(offset + 24, true)
+    const endBag = view.getUint16(offset + 38 + 24, true)
+    const { global, zones } = splitGlobalZone(readZones(view, pbag, pgen, firstBag, endBag), 'instrument')
+
+    presets.push({
+      name: readAscii(view, offset, 20),
+      program: view.getUint16(offset + 20, true),
+      bank: view.getUint16(offset + 22, true),
+      samples: zones.flatMap(zone => readInstrument(zone.instrument!, zone.keyRange ?? global.keyRange ?? [0, 127]))
+    })
+  }
+
+  const playable = presets.filter(preset => preset.samples.length > 0)
+  if (playable.length === 0) throw new SoundFontError('The SoundFont has no playable presets')
+  return playable.sort((a, b) => a.bank - b.bank || a.program - b.program)
+}
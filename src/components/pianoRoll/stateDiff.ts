@@ -0,0 +1,219 @@
+import type { PianoRollState, NoteData, TrackData } from './pianoRollState'
+import { applyTiming, getTiming, type SongTiming } from './pianoRollTiming'
+
+// Structural diffs of the undoable part of the piano roll state (notes, tracks,
+// selection, song timing). Commands store only what changed instead of full JSON snapshots.
+
+// The MIDI file resolution is kept with the timing so an import undoes as a whole
+export type TimingSnapshot = SongTiming & { ticksPerQuarter: number }
+
+export type StateSnapshot = {
+  notes: Map<string, NoteData>
+  tracks: Map<string, TrackData>
+  selection: Set<string>
+  timing: TimingSnapshot
+}
+
+// before undefined = added, after undefined = removed
+export type EntityChange<T> = {
+  id: string
+  before?: T
+  after?: T
+}
+
+export type StateDiff = {
+  notes: EntityChange<NoteData>[]
+  tracks: EntityChange<TrackData>[]
+  trackOrder?: { before: string[], after: string[] }
+  selection?: { before: string[], after: string[] }
+  timing?: { before: TimingSnapshot, after: TimingSnapshot }
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function entitiesEqual<T extends object>(a: T | undefined, b: T | undefined): boolean {
+  if (a === b) return true
+  if (!a || !b) return false
+
+  const aKeys = Object.keys(a) as Array<keyof T>
+  const bKeys = Object.keys(b) as Array<keyof T>
+  if (aKeys.length !== bKeys.length) return false
+  return aKeys.every(key => valuesEqual(a[key], b[key]))
+}
+
+function arraysEqual(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i])
+}
+
+function setsEqual(a: Set<string>, b: Set<string>): boolean {
+  if (a.size !== b.size) return false
+  for (const id of a) {
+    if (!b.has(id)) return false
+  }
+  return true
+}
+
+// Shallow-copies each entity so later in-place edits do not leak into the snapshot
+export function captureState(state: PianoRollState): StateSnapshot {
+  const notes = new Map<string, NoteData>()
+  state.notes.forEach((note, id) => notes.set(id, { ...note }))
+
+  const tracks = new Map<string, TrackData>()
+  state.tracks.forEach((track, id) => tracks.set(id, { ...track }))
+
+  return {
+    notes,
+    tracks,
+    selection: new Set(state.selection.selectedIds),
+    timing: { ...getTiming(state), ticksPerQuarter: state.grid.ticksPerQuarter }
+  }
+}
+
+function diffEntities<T extends object>(before: Map<string, T>, after: Map<string, T>): EntityChange<T>[] {
+  const changes: EntityChange<T>[] = []
+
+  before.forEach((value, id) => {
+    const next = after.get(id)
+    if (!entitiesEqual(value, next)) {
+      changes.push({ id, before: value, after: next })
+    }
+  })
+
+  after.forEach((value, id) => {
+    if (!before.has(id)) {
+      changes.push({ id, after: value })
+    }
+  })
+
+  return changes
+}
+
+// Returns null when nothing changed
+export function diffStates(before: StateSnapshot, after: StateSnapshot): StateDiff | null {
+  const diff: StateDiff = {
+    notes: diffEntities(before.notes, after.notes),
+    tracks: diffEntities(before.tracks, after.tracks)
+  }
+
+  const beforeOrder = Array.from(before.tracks.keys())
+  const afterOrder = Array.from(after.tracks.keys())
+  if (!arraysEqual(beforeOrder, afterOrder)) {
+    diff.trackOrder = { before: beforeOrder, after: afterOrder }
+  }
+
+  if (!setsEqual(before.selection, after.selection)) {
+    diff.selection = { before: Array.from(before.selection), after: Array.from(after.selection) }
+  }
+
+  if (!entitiesEqual(before.timing, after.timing)) {
+    diff.timing = { before: before.timing, after: after.timing }
+  }
+
+  return isEmptyDiff(diff) ? null : diff
+}
+
+export function isEmptyDiff(diff: StateDiff): boolean {
+  return diff.notes.length === 0 && diff.tracks.length === 0 && !diff.trackOrder && !diff.selection && !diff.timing
+}
+
+function applyEntityChanges<T extends object>(target: Map<string, T>, changes: EntityChange<T>[], useAfter: boolean) {
+  changes.forEach(change => {
+    const value = useAfter ? change.after : change.before
+    if (value) {
+      target.set(change.id, { ...value })
+    } else {
+      target.delete(change.id)
+    }
+  })
+}
+
+// direction 'redo' moves the state from before → after, 'undo' the reverse
+export function applyStateDiff(state: PianoRollState, diff: StateDiff, direction: 'undo' | 'redo') {
+  const useAfter = direction === 'redo'
+
+  applyEntityChanges(state.notes, diff.notes, useAfter)
+  applyEntityChanges(state.tracks, diff.tracks, useAfter)
+
+  if (diff.trackOrder) {
+    const order = useAfter ? diff.trackOrder.after : diff.trackOrder.before
+    state.tracks = new Map(order
+      .map(id => [id, state.tracks.get(id)] as const)
+      .filter((entry): entry is readonly [string, TrackData] => entry[1] !== undefined))
+  }
+
+  if (!state.tracks.has(state.activeTrackId)) {
+    state.activeTrackId = state.tracks.keys().next().value ?? state.activeTrackId
+  }
+
+  if (diff.selection) {
+    state.selection.selectedIds = new Set(useAfter ? diff.selection.after : diff.selection.before)
+  }
+
+  if (diff.timing) {
+    const timing = useAfter ? diff.timing.after : diff.timing.before
+    applyTiming(state, timing)
+    state.grid.ticksPerQuarter = timing.ticksPerQuarter
+  }
+
+  state.needsRedraw = true
+}
+
+// The same diff with every track snapshot in it passed through `fn`
+export function mapDiffTracks(diff: StateDiff, fn: (track: TrackData) => TrackData): StateDiff {
+  return {
+    ...diff,
+    tracks: diff.tracks.map(change => ({
+      id: change.id,
+      before: change.before && fn(change.before),
+      after: change.after && fn(change.after)
+    })).filter(change => !entitiesEqual(change.before, change.after))
+  }
+}
+
+function mergeEntityChanges<T extends object>(previous: EntityChange<T>[], next: EntityChange<T>[]): EntityChange<T>[] {
+  const merged = new Map<string, EntityChange<T>>()
+  previous.forEach(change => merged.set(change.id, { ...change }))
+
+  next.forEach(change => {
+    const existing = merged.get(change.id)
+    if (existing) {
+      existing.after = change.after
+    } else {
+      merged.set(change.id, { ...change })
+    }
+  })
+
+  return Array.from(merged.values()).filter(change => !entitiesEqual(change.before, change.after))
+}
+
+// Compose two consecutive diffs into one (previous applied first). Returns null if they cancel out.
+export function mergeStateDiffs(previous: StateDiff, next: StateDiff): StateDiff | null {
+  const merged: StateDiff = {
+    notes: mergeEntityChanges(previous.notes, next.notes),
+    tracks: mergeEntityChanges(previous.tracks, next.tracks)
+  }
+
+  const trackOrderBefore = previous.trackOrder?.before ?? next.trackOrder?.before
+  const trackOrderAfter = next.trackOrder?.after ?? previous.trackOrder?.after
+  if (trackOrderBefore && trackOrderAfter && !arraysEqual(trackOrderBefore, trackOrderAfter)) {
+    merged.trackOrder = { before: trackOrderBefore, after: trackOrderAfter }
+  }
+
+  const selectionBefore = previous.selection?.before ?? next.selection?.before
+  const selectionAfter = next.selection?.after ?? previous.selection?.after
+  if (selectionBefore && selectionAfter && !setsEqual(new Set(selectionBefore), new Set(selectionAfter))) {
+    merged.selection = { before: selectionBefore, after: selectionAfter }
+  }
+
+  const timingBefore = previous.timing?.before ?? next.timing?.before
+  const timingAfter = next.timing?.after ?? previous.timing?.after
+  if (timingBefore && timingAfter && !entitiesEqual(timingBefore, timingAfter)) {
+    merged.timing = { before: timingBefore, after: timingAfter }
+  }
+
+  return isEmptyDiff(merged) ? null : merged
+}
@@ -1,5 +1,13 @@
 import { defineCustomElement } from 'vue'
 import PianoRollRoot from './PianoRollRoot.vue'
+import type { NoteData, NoteDataInput, TrackData } from './pianoRollState'
+import type { PreviewSummary } from './pianoRollPreview'
+import type { SongTiming } from './pianoRollTiming'
+import type { LoopRegion } from './pianoRollLoop'
+import type { MidiFileWriteOptions } from './midiFile'
+import type { CommandOptions } from './commandStack'
+import type { RecordedNote, TakeOptions } from './pianoRollRecording'
+import type { MIDIManager } from './midiManager'
 
 const tagName = 'piano-roll-component'
 
@@ -9,6 +17,49 @@ if (!customElements.get(tagName)) {
   customElements.define(tagName, PianoRollElement)
 }
 
+// Methods from PianoRollRoot's defineExpose, proxied onto the element by Vue
+export interface PianoRollElementMethods {
+  setNotes(notes: NoteDataInput[], commandName?: string): void
+  undo(): void
+  redo(): void
+  getHistory(): { entries: string[], currentIndex: number }
+  jumpToHistory(index: number): void
+  setLivePlayheadPosition(position: number): void
+  getPlayStartPosition(): number
+  setPlayStartPosition(position: number): void
+  fitZoomToNotes(): void
+  importMidi(data: ArrayBuffer | Uint8Array): { timingAdjusted: boolean }
+  exportMidi(options?: MidiFileWriteOptions): Uint8Array
+  getTiming(): SongTiming
+  setTiming(patch: Partial<SongTiming>, options?: CommandOptions): { timing?: SongTiming, error?: string }
+  getLoop(): LoopRegion
+  setLoop(patch: Partial<LoopRegion>): LoopRegion
+  startRecording(options: TakeOptions): boolean
+  recordNote(note: RecordedNote): string | null
+  updateRecording(position: number): void
+  stopRecording(position: number): number
+  setMidiManager(manager: MIDIManager | null): void
+  getTracks(): TrackData[]
+  getActiveTrackId(): string
+  addTrack(overrides?: Partial<Omit<TrackData, 'id'>>): string
+  updateTrack(trackId: string, patch: Partial<Omit<TrackData, 'id'>>): void
+  removeTrack(trackId: string): void
+  setActiveTrack(trackId: string): void
+  setTrackInstruments(instruments: Record<string, string>): void
+  replaceInstrument(instrumentId: string, replacement: string): void
+  setSelection(noteIds: string[]): string[]
+  showPreview(notes: NoteDataInput[], label?: string): PreviewSummary | null
+  getPreview(): { notes: NoteData[], label: string } | null
+  acceptPreview(): boolean
+  rejectPreview(): boolean
+}
+
 export { PianoRollElement }
 export default PianoRollElement
-export type { NoteData } from './pianoRollState'
\ No newline at end of file
+export type { NoteData, NoteDataInput, TrackData } from './pianoRollState'
+export type { MidiFileData, MidiFileWriteOptions } from './midiFile'
+export type { PreviewSummary } from './pianoRollPreview'
+export type { SongTiming } from './pianoRollTiming'
+export type { LoopRegion } from './pianoRollLoop'
+export type { CommandOptions } from './commandStack'
+export type { RecordedNote, RecordMode, TakeOptions } from './pianoRollRecording'
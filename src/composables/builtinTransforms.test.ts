@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import { BUILTIN_TRANSFORMS } from './builtinTransforms'
+import { executeTransform, type TransformArg } from './transformRunner'
+import { validateTransform } from './useTransformRegistry'
+import type { NoteDataInput } from '../components/pianoRoll/pianoRollState'
+
+const builtins = new Map(BUILTIN_TRANSFORMS.map(code => [validateTransform(code).functionName!, code]))
+
+function run(name: string, notes: NoteDataInput[], ...args: TransformArg[]): NoteDataInput[] {
+  const result = executeTransform({ code: builtins.get(name)!, functionName: name, notes, args })
+  if (result.status === 'error') throw new Error(result.error)
+  return result.notes
+}
+
+const note = (pitch: number, position: number, duration = 1, extra: Partial<NoteDataInput> = {}): NoteDataInput =>
+  ({ pitch, position, duration, ...extra })
+
+describe('built-in transforms', () => {
+  it.each(BUILTIN_TRANSFORMS.map(code => [code.match(/function (\w+)/)![1], code]))('%s validates with typed params', (_, code) => {
+    const result = validateTransform(code!)
+
+    expect(result.errors).toEqual([])
+    expect(result.params!.every(p => p.name === 'notes' || p.description)).toBe(true)
+  })
+
+  it('transposes', () => {
+    expect(run('transpose', [note(60, 0)], 7)[0]!.pitch).toBe(67)
+  })
+
+  it('quantizes with partial strength', () => {
+    const [full] = run('quantize', [note(60, 0.3, 0.5)], 0.25, 1, false)
+    const [half] = run('quantize', [note(60, 0.3, 0.5)], 0.25, 0.5, false)
+
+    expect(full!.position).toBeCloseTo(0.25)
+    expect(half!.position).toBeCloseTo(0.275)
+    expect(full!.duration).toBeCloseTo(0.5)
+  })
+
+  it('swings only off-beat notes', () => {
+    const positions = run('swing', [note(60, 0, 0.5), note(62, 0.5, 0.5)], 1, 0.5).map(n => n.position)
+
+    expect(positions[0]).toBe(0)
+    expect(positions[1]).toBeCloseTo(0.5 + 0.5 / 3)
+  })
+
+  it('keeps humanized velocities and positions in range', () => {
+    const notes = Array.from({ length: 20 }, (_, i) => note(60, i * 0.01, 1, { velocity: 125 }))
+
+    run('humanize', notes, 0.25, 64).forEach(n => {
+      expect(n.position).toBeGreaterThanOrEqual(0)
+      expect(n.velocity).toBeGreaterThanOrEqual(1)
+      expect(n.velocity).toBeLessThanOrEqual(127)
+    })
+  })
+
+  it('makes notes legato per track and staccato by a factor', () => {
+    const legato = run('legato', [note(60, 0, 0.25), note(62, 1, 0.25), note(40, 0.5, 0.25, { trackId: 'bass' })], 0)
+
+    expect(legato.map(n => n.duration)).toEqual([1, 0.25, 0.25])
+    expect(run('staccato', [note(60, 0, 1)], 0.5)[0]!.duration).toBe(0.5)
+  })
+
+  it('reverses in time within the passage', () => {
+    const reversed = run('reverse', [note(60, 1, 1), note(62, 2, 2)])
+
+    expect(reversed.map(n => [n.pitch, n.position])).toEqual([[60, 3], [62, 1]])
+  })
+
+  it('inverts around an axis pitch', () => {
+    expect(run('invert', [note(64, 0)], 60)[0]!.pitch).toBe(56)
+  })
+
+  it('snaps to the scale, breaking ties downward', () => {
+    const pitches = run('scaleSnap', [note(61, 0), note(66, 1), note(62, 2)], 'C', 'major').map(n => n.pitch)
+
+    expect(pitches).toEqual([60, 65, 62])
+    expect(run('scaleSnap', [note(64, 0)], 'A', 'minorPentatonic')[0]!.pitch).toBe(64)
+  })
+
+  it('arpeggiates chords over their length', () => {
+    const chord = [note(64, 0, 1, { id: 'e' }), note(60, 0, 1, { id: 'c' }), note(67, 0, 1, { id: 'g' })]
+    const arp = run('arpeggiate', chord, 'updown', 0.25)
+
+    expect(arp.map(n => [n.pitch, n.position])).toEqual([[60, 0], [64, 0.25], [67, 0.5], [64, 0.75]])
+    expect(arp.every(n => n.id === undefined && n.duration === 0.25)).toBe(true)
+  })
+
+  it('strums chords low to high and keeps single notes', () => {
+    const strummed = run('strum', [note(67, 0), note(60, 0), note(72, 2)], 0.1, 'down')
+    const starts = new Map(strummed.map(n => [n.pitch, n.position]))
+
+    expect(starts.get(60)).toBe(0)
+    expect(starts.get(67)).toBeCloseTo(0.1)
+    expect(starts.get(72)).toBe(2)
+  })
+})
@@ -0,0 +1,206 @@
+// Standard transforms that every session starts with. They use the same JSDoc
+// format as slot code and run through the same sandboxed runner, but are
+// exposed as builtin_<name> tools instead of occupying one of the 8 slots.
+// Each source must be self-contained: it is compiled on its own in the worker.
+
+// Notes starting together on the same track form a chord
+const GROUP_CHORDS = `
+  const chords = new Map();
+  notes.forEach(n => {
+    const key = (n.trackId || '') + ':' + Math.round(n.position * 1000);
+    if (!chords.has(key)) chords.set(key, []);
+    chords.get(key).push(n);
+  });`
+
+const TRANSPOSE = `/**
+ * Shift every note up or down by a number of semitones.
+ * @param {Note[]} notes - Input notes array
+ * @param {number} semitones - Interval to shift by, -48 to 48
+ */
+function transpose(notes, semitones) {
+  return notes.map(n => ({ ...n, pitch: n.pitch + Math.round(semitones) }));
+}`
+
+const QUANTIZE = `/**
+ * Move note starts (and optionally ends) toward the nearest grid line.
+ * @param {Note[]} notes - Input notes array
+ * @param {number} [grid=0.25] - Grid size in quarter notes (0.25 = 16ths), min 0.03125
+ * @param {number} [strength=1] - How far to move toward the grid, 0 to 1
+ * @param {boolean} [quantizeEnds=false] - Also snap note ends
+ */
+function quantize(notes, grid, strength, quantizeEnds) {
+  const snap = value => value + (Math.round(value / grid) * grid - value) * strength;
+  return notes.map(n => {
+    const position = Math.max(0, snap(n.position));
+    const end = quantizeEnds ? snap(n.position + n.duration) : position + n.duration;
+    // A short note whose end snapped onto its start keeps one grid step
+    return { ...n, position, duration: end - position > 0.001 ? end - position : grid };
+  });
+}`
+
+const SWING = `/**
+ * Delay off-beat notes for a swung feel.
+ * @param {Note[]} notes - Input notes array
+ * @param {number} [amount=0.5] - Swing amount, 0 to 1 (1 = full triplet swing)
+ * @param {number} [grid=0.5] - Beat subdivision being swung in quarter notes (0.5 = 8ths, 0.25 = 16ths), min 0.125
+ */
+function swing(notes, amount, grid) {
+  const delay = amount * grid / 3;
+  return notes.map(n => {
+    const step = n.position / grid;
+    const isOffBeat = Math.abs(step - Math.round(step)) < 0.01 && Math.round(step) % 2 === 1;
+    return isOffBeat ? { ...n, position: n.position + delay } : { ...n };
+  });
+}`
+
+const HUMANIZE = `/**
+ * Add small random variations to timing and velocity.
+ * @param {Note[]} notes - Input notes array
+ * @param {number} [timing=0.02] - Maximum start offset in quarter notes, 0 to 0.25
+ * @param {number} [velocity=8] - Maximum velocity change, 0 to 64
+ */
+function humanize(notes, timing, velocity) {
+  const jitter = range => (Math.random() * 2 - 1) * range;
+  return notes.map(n => ({
+    ...n,
+    position: Math.max(0, n.position + jitter(timing)),
+    velocity: Math.max(1, Math.min(127, Math.round((n.velocity ?? 100) + jitter(velocity))))
+  }));
+}`
+
+const LEGATO = `/**
+ * Stretch each note until the next note on the same track starts.
+ * @param {Note[]} notes - Input notes array
+ * @param {number} [gap=0] - Space to leave before the next note in quarter notes, 0 to 1
+ */
+function legato(notes, gap) {
+  const starts = new Map();
+  notes.forEach(n => {
+    const track = n.trackId || '';
+    if (!starts.has(track)) starts.set(track, []);
+    starts.get(track).push(n.position);
+  });
+  return notes.map(n => {
+    const next = starts.get(n.trackId || '').filter(p => p > n.position + 0.001).sort((a, b) => a - b)[0];
+    if (next === undefined) return { ...n };
+    return { ...n, duration: Math.max(0.01, next - n.position - gap) };
+  });
+}`
+
+const STACCATO = `/**
+ * Shorten notes for a detached articulation.
+ * @param {Note[]} notes - Input notes array
+ * @param {number} [factor=0.5] - Fraction of the original length to keep, 0.05 to 1
+ */
+function staccato(notes, factor) {
+  return notes.map(n => ({ ...n, duration: n.duration * factor }));
+}`
+
+const REVERSE = `/**
+ * Play the passage backwards by mirroring notes in time.
+ * @param {Note[]} notes - Input notes array
+ */
+function reverse(notes) {
+  if (notes.length === 0) return [];
+  const start = Math.min(...notes.map(n => n.position));
+  const end = Math.max(...notes.map(n => n.position + n.duration));
+  return notes.map(n => ({ ...n, position: start + end - (n.position + n.duration) }));
+}`
+
+const INVERT = `/**
+ * Mirror pitches around an axis pitch (melodic inversion).
+ * @param {Note[]} notes - Input notes array
+ * @param {pitch} [axis=60] - Pitch to invert around, e.g. C4 or E4
+ */
+function invert(notes, axis) {
+  return notes.map(n => ({ ...n, pitch: 2 * axis - n.pitch }));
+}`
+
+const SCALE_SNAP = `/**
+ * Move out-of-scale notes to the nearest pitch in a scale.
+ * @param {Note[]} notes - Input notes array
+ * @param {'C'|'C#'|'D'|'D#'|'E'|'F'|'F#'|'G'|'G#'|'A'|'A#'|'B'} [root='C'] - Scale root
+ * @param {'major'|'minor'|'harmonicMinor'|'dorian'|'mixolydian'|'pentatonic'|'minorPentatonic'|'blues'} [scale='major'] - Scale type
+ */
+function scaleSnap(notes, root, scale) {
+  const scales = {
+    major: [0, 2, 4, 5, 7, 9, 11],
+    minor: [0, 2, 3, 5, 7, 8, 10],
+    harmonicMinor: [0, 2, 3, 5, 7, 8, 11],
+    dorian: [0, 2, 3, 5, 7, 9, 10],
+    mixolydian: [0, 2, 4, 5, 7, 9, 10],
+    pentatonic: [0, 2, 4, 7, 9],
+    minorPentatonic: [0, 3, 5, 7, 10],
+    blues: [0, 3, 5, 6, 7, 10]
+  };
+  const rootClass = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'].indexOf(root);
+  const inScale = pitch => scales[scale].includes(((pitch - rootClass) % 12 + 12) % 12);
+  return notes.map(n => {
+    // Search outward, trying below first so ties go down
+    for (let offset = 0; offset < 12; offset++) {
+      if (inScale(n.pitch - offset)) return { ...n, pitch: n.pitch - offset };
+      if (inScale(n.pitch + offset)) return { ...n, pitch: n.pitch + offset };
+    }
+    return { ...n };
+  });
+}`
+
+const ARPEGGIATE = `/**
+ * Turn chords into arpeggios that repeat over each chord's length.
+ * @param {Note[]} notes - Input notes array
+ * @param {'up'|'down'|'updown'} [direction='up'] - Order of the chord tones
+ * @param {number} [rate=0.25] - Length of each arpeggio step in quarter notes, min 0.0625
+ */
+function arpeggiate(notes, direction, rate) {${GROUP_CHORDS}
+  const result = [];
+  chords.forEach(chord => {
+    if (chord.length < 2) {
+      result.push({ ...chord[0] });
+      return;
+    }
+    const up = [...chord].sort((a, b) => a.pitch - b.pitch);
+    const order = direction === 'down' ? up.reverse()
+      : direction === 'updown' ? [...up, ...up.slice(1, -1).reverse()]
+      : up;
+    const start = chord[0].position;
+    const end = Math.max(...chord.map(n => n.position + n.duration));
+    for (let step = 0; start + step * rate < end - 0.001; step++) {
+      const { id, ...tone } = order[step % order.length];
+      const position = start + step * rate;
+      result.push({ ...tone, position, duration: Math.min(rate, end - position) });
+    }
+  });
+  return result;
+}`
+
+const STRUM = `/**
+ * Offset chord tones slightly like a strummed guitar.
+ * @param {Note[]} notes - Input notes array
+ * @param {number} [spread=0.05] - Delay between successive chord tones in quarter notes, 0 to 0.5
+ * @param {'down'|'up'} [direction='down'] - down plays low to high, up plays high to low
+ */
+function strum(notes, spread, direction) {${GROUP_CHORDS}
+  const result = [];
+  chords.forEach(chord => {
+    const ordered = [...chord].sort((a, b) => direction === 'up' ? b.pitch - a.pitch : a.pitch - b.pitch);
+    ordered.forEach((n, i) => {
+      const offset = i * spread;
+      result.push({ ...n, position: n.position + offset, duration: Math.max(n.duration * 0.25, n.duration - offset) });
+    });
+  });
+  return result;
+}`
+
+export const BUILTIN_TRANSFORMS: string[] = [
+  TRANSPOSE,
+  QUANTIZE,
+  SWING,
+  HUMANIZE,
+  LEGATO,
+  STACCATO,
+  REVERSE,
+  INVERT,
+  SCALE_SNAP,
+  ARPEGGIATE,
+  STRUM
+]
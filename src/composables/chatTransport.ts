@@ -0,0 +1,191 @@
+import Anthropic from '@anthropic-ai/sdk'
+
+// The chat tool loop talks to the model only through a ChatTransport, so the
+// real Messages API can be swapped for a scripted stand-in (offline demos, tests).
+
+export interface ChatRequest {
+  model: string
+  system: string
+  tools: Anthropic.Tool[]
+  messages: Anthropic.MessageParam[]
+  maxTokens: number
+}
+
+// Optional streaming callbacks; transports that cannot stream may skip them
+export interface ChatStreamHandlers {
+  onText?: (delta: string) => void
+  onToolUseStart?: (toolUse: { id: string, name: string }) => void
+}
+
+export interface ChatTransport {
+  send(request: ChatRequest, handlers: ChatStreamHandlers, signal: AbortSignal): Promise<Anthropic.ContentBlock[]>
+}
+
+// ================= Anthropic Messages API =================
+
+export function createAnthropicTransport(apiKey: string): ChatTransport {
+  const client = new Anthropic({
+    apiKey,
+    dangerouslyAllowBrowser: true
+  })
+
+  return {
+    async send(request, handlers, signal) {
+      const stream = client.messages.stream({
+        model: request.model,
+        system: request.system,
+        tools: request.tools,
+        max_tokens: request.maxTokens,
+        messages: request.messages
+      }, { signal })
+
+      stream.on('text', (delta) => handlers.onText?.(delta))
+      stream.on('streamEvent', (event) => {
+        if (event.type === 'content_block_start' && event.content_block.type === 'tool_use') {
+          handlers.onToolUseStart?.({ id: event.content_block.id, name: event.content_block.name })
+        }
+      })
+
+      const message = await stream.finalMessage()
+      return message.content
+    }
+  }
+}
+
+// ================= Scripted mock =================
+
+// Shorthand blocks for scripts; ids are generated for tool_use blocks without one
+export type MockBlock =
+  | { type: 'text', text: string }
+  | { type: 'tool_use', name: string, input: Record<string, any>, id?: string }
+
+// A reply is either content blocks or an error the transport throws
+export type MockReply = MockBlock[] | { error: string }
+
+// Script entries are consumed one per request; functions can inspect the request
+export type MockScriptEntry = MockReply | ((request: ChatRequest) => MockReply)
+
+export interface MockTransportOptions {
+  // Delay between streamed text chunks, to make streaming visible in the UI
+  chunkDelayMs?: number
+  // Answers requests once the script is used up (otherwise the transport throws)
+  fallback?: (request: ChatRequest) => MockReply
+}
+
+export interface MockTransport extends ChatTransport {
+  requests: ChatRequest[]  // every request received, oldest first
+  push(...entries: MockScriptEntry[]): void
+  remaining(): number
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new Anthropic.APIUserAbortError())
+      return
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new Anthropic.APIUserAbortError())
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+let mockToolUseCount = 0
+
+function toContentBlock(block: MockBlock): Anthropic.ContentBlock {
+  if (block.type === 'text') {
+    return { type: 'text', text: block.text, citations: null }
+  }
+  return {
+    type: 'tool_use',
+    id: block.id ?? `toolu_mock_${++mockToolUseCount}`,
+    name: block.name,
+    input: block.input
+  }
+}
+
+export function createMockTransport(script: MockScriptEntry[] = [], options: MockTransportOptions = {}): MockTransport {
+  const queue = [...script]
+  const requests: ChatRequest[] = []
+  const chunkDelayMs = options.chunkDelayMs ?? 0
+
+  return {
+    requests,
+
+    push(...entries) {
+      queue.push(...entries)
+    },
+
+    remaining() {
+      return queue.length
+    },
+
+    async send(request, handlers, signal) {
+      // Copy the transcript; the chat keeps appending to the same array
+      requests.push({ ...request, messages: [...request.messages] })
+
+      const entry = queue.shift() ?? options.fallback
+      if (!entry) throw new Error('Mock transport has no scripted reply left')
+
+      const reply = typeof entry === 'function' ? entry(request) : entry
+      if (!Array.isArray(reply)) throw new Error(reply.error)
+
+      const blocks = reply.map(block => toContentBlock(block))
+      for (const block of blocks) {
+        if (block.type === 'tool_use') {
+          handlers.onToolUseStart?.({ id: block.id, name: block.name })
+        } else if (block.type === 'text') {
+          // Stream word by word, keeping the whitespace
+          for (const chunk of block.text.match(/\S+\s*|\s+/g) ?? []) {
+            if (chunkDelayMs > 0) await wait(chunkDelayMs, signal)
+            handlers.onText?.(chunk)
+          }
+        }
+        if (signal.aborted) throw new Anthropic.APIUserAbortError()
+      }
+
+      return blocks
+    }
+  }
+}
+
+// Fallback for running the demo offline: reads the notes, adds a C major
+// chord after the last note, then reports back. Exercises the whole tool loop.
+export function offlineDemoReply(request: ChatRequest): MockReply {
+  const last = request.messages[request.messages.length - 1]
+  const toolResult = Array.isArray(last?.content)
+    ? last.content.find((block): block is Anthropic.ToolResultBlockParam => block.type === 'tool_result')
+    : undefined
+
+  if (!toolResult) {
+    return [
+      { type: 'text', text: 'Offline mode: I will read the piano roll and add a C major chord.' },
+      { type: 'tool_use', name: 'midi_notes', input: { action: 'read' } }
+    ]
+  }
+
+  const result = JSON.parse(typeof toolResult.content === 'string' ? toolResult.content : '{}')
+  if (Array.isArray(result.notes)) {
+    const end = result.notes.reduce((max: number, n: any) => Math.max(max, n.position + n.duration), 0)
+    const position = Math.min(Math.ceil(end), Math.max(0, (result.grid?.maxLength ?? 16) - 1))
+    return [{
+      type: 'tool_use',
+      name: 'midi_notes',
+      input: {
+        action: 'add',
+        notes: [60, 64, 67].map(pitch => ({ pitch, position, duration: 1, velocity: 90 }))
+      }
+    }]
+  }
+
+  return [{
+    type: 'text',
+    text: result.error ? `The edit failed: ${result.error}` : `Added a C major chord (${result.count ?? 0} notes).`
+  }]
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { createInstrumentLibrary, pitchFromFileName } from './instrumentLibrary'
+import type { KeyValueStorage } from './transformLibrary'
+
+function createMemoryStorage(): KeyValueStorage {
+  const data = new Map<string, string>()
+  return {
+    getItem: key => data.get(key) ?? null,
+    setItem: (key, value) => { data.set(key, value) }
+  }
+}
+
+describe('createInstrumentLibrary', () => {
+  it('persists custom instruments, settings and track choices', () => {
+    const storage = createMemoryStorage()
+    const library = createInstrumentLibrary({ storage })
+    const piano = library.add({ name: 'Piano', source: { type: 'samples', files: ['C4.wav', 'C5.wav'] } })
+    library.update('bass', { volume: -3, envelope: { release: 0.5 } as any })
+    library.setTrackInstrument('track_1', piano.id)
+    library.setTrackInstrument('track_2', 'pad')
+
+    const restored = createInstrumentLibrary({ storage })
+
+    expect(restored.getInstrument(piano.id)).toMatchObject({ name: 'Piano', source: { type: 'samples', files: ['C4.wav', 'C5.wav'] } })
+    expect(restored.getInstrument('bass')).toMatchObject({ volume: -3, envelope: { attack: 0.005, release: 0.5 } })
+    expect({ ...restored.trackInstruments }).toEqual({ track_1: piano.id, track_2: 'pad' })
+  })
+
+  it('clamps settings and keeps built-ins', () => {
+    const library = createInstrumentLibrary({ storage: null })
+    library.update('synth', { name: 'Renamed', volume: 40, envelope: { attack: -1, decay: 0.2, sustain: 3, release: 100 } })
+
+    expect(library.getInstrument('synth')).toMatchObject({
+      name: 'Synth',
+      volume: 6,
+      envelope: { attack: 0.001, decay: 0.2, sustain: 1, release: 20 }
+    })
+    expect(library.remove('synth')).toBe(false)
+    expect(() => library.add({ name: 'Copy', source: { type: 'preset', preset: 'fm' } })).toThrow()
+  })
+
+  it('forgets track choices for a removed instrument', () => {
+    const library = createInstrumentLibrary({ storage: null })
+    const font = library.add({ name: 'Font', source: { type: 'soundfont', file: 'gm.sf2', preset: 3 } })
+    library.setTrackInstrument('track_1', font.id)
+    library.setTrackInstrument('track_2', 'missing')
+
+    expect(library.remove(font.id)).toBe(true)
+    expect(library.getInstrument(font.id)).toBeUndefined()
+    expect({ ...library.trackInstruments }).toEqual({})
+  })
+})
+
+describe('pitchFromFileName', () => {
+  it('reads note names and MIDI numbers at the end of the name', () => {
+    expect(pitchFromFileName('C4.wav')).toBe(60)
+    expect(pitchFromFileName('piano_F#3.mp3')).toBe(54)
+    expect(pitchFromFileName('Bb2.ogg')).toBe(46)
+    expect(pitchFromFileName('kick-36.wav')).toBe(36)
+    expect(pitchFromFileName('snare.wav')).toBeNull()
+  })
+})
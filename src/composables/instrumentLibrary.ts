@@ -0,0 +1,222 @@
+import { reactive } from 'vue'
+import { uid } from '../components/pianoRoll/pianoRollUtils'
+import { TRACK_INSTRUMENTS } from '../components/pianoRoll/pianoRollConstants'
+import { getDefaultStorage, readStoredJson, writeStoredJson, type KeyValueStorage } from './transformLibrary'
+
+// Instruments a track can play: built-in synth presets, plus samplers made
+// from the user's own audio files or a SoundFont. Settings and each track's
+// choice are saved to local storage; audio stays in memory, so a sampler needs
+// its files loaded again after a reload.
+
+export const SYNTH_PRESETS = TRACK_INSTRUMENTS
+export type SynthPreset = typeof SYNTH_PRESETS[number]
+
+export interface InstrumentEnvelope {
+  attack: number   // seconds
+  decay: number    // seconds
+  sustain: number  // 0-1
+  release: number  // seconds
+}
+
+export type InstrumentSource =
+  | { type: 'preset', preset: SynthPreset }
+  | { type: 'samples', files: string[] }           // audio file names, each named after its pitch
+  | { type: 'soundfont', file: string, preset: number }  // .sf2 file name and index into its presets
+
+export interface InstrumentSettings {
+  id: string
+  name: string
+  source: InstrumentSource
+  volume: number  // dB
+  envelope: InstrumentEnvelope
+}
+
+export type InstrumentInput = Pick<InstrumentSettings, 'name' | 'source'> & Partial<Pick<InstrumentSettings, 'volume' | 'envelope'>>
+
+export interface InstrumentLibraryConfig {
+  storage?: KeyValueStorage | null  // null disables persistence
+  storageKey?: string
+}
+
+export const MIN_VOLUME = -40
+export const MAX_VOLUME = 6
+export const ENVELOPE_LIMITS: Record<keyof InstrumentEnvelope, [number, number]> = {
+  attack: [0.001, 10],
+  decay: [0.001, 10],
+  sustain: [0, 1],
+  release: [0.001, 20]
+}
+const DEFAULT_STORAGE_KEY = 'pianoRoll.instruments'
+const DEFAULT_ENVELOPE: InstrumentEnvelope = { attack: 0.01, decay: 0.1, sustain: 0.5, release: 0.8 }
+
+export const BUILTIN_INSTRUMENTS: InstrumentSettings[] = ([
+  ['synth', 'Synth', -8, DEFAULT_ENVELOPE],
+  ['fm', 'FM', -8, { attack: 0.01, decay: 0.2, sustain: 0.4, release: 0.8 }],
+  ['am', 'AM', -8, { attack: 0.01, decay: 0.2, sustain: 0.5, release: 0.8 }],
+  ['mono', 'Mono', -10, { attack: 0.005, decay: 0.1, sustain: 0.6, release: 0.5 }],
+  ['keys', 'Electric piano', -8, { attack: 0.005, decay: 1.2, sustain: 0.2, release: 0.6 }],
+  ['bass', 'Bass', -6, { attack: 0.005, decay: 0.3, sustain: 0.7, release: 0.2 }],
+  ['pad', 'Pad', -12, { attack: 0.6, decay: 0.5, sustain: 0.8, release: 2 }],
+  ['drums', 'Drums', -4, { attack: 0.001, decay: 0.4, sustain: 0, release: 0.3 }]
+] as const).map(([preset, name, volume, envelope]) => ({
+  id: preset,
+  name,
+  source: { type: 'preset', preset },
+  volume,
+  envelope: { ...envelope }
+}))
+
+const clamp = (value: unknown, [min, max]: [number, number], fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback
+
+function sanitizeEnvelope(raw: any, fallback: InstrumentEnvelope): InstrumentEnvelope {
+  const envelope = { ...fallback }
+  ;(Object.keys(ENVELOPE_LIMITS) as Array<keyof InstrumentEnvelope>).forEach(key => {
+    envelope[key] = clamp(raw?.[key], ENVELOPE_LIMITS[key], fallback[key])
+  })
+  return envelope
+}
+
+function sanitizeSource(raw: any): InstrumentSource | null {
+  if (raw?.type === 'preset' && SYNTH_PRESETS.includes(raw.preset)) {
+    return { type: 'preset', preset: raw.preset }
+  }
+  if (raw?.type === 'samples' && Array.isArray(raw.files)) {
+    return { type: 'samples', files: raw.files.filter((file: unknown) => typeof file === 'string') }
+  }
+  if (raw?.type === 'soundfont' && typeof raw.file === 'string') {
+    return { type: 'soundfont', file: raw.file, preset: Number.isInteger(raw.preset) && raw.preset >= 0 ? raw.preset : 0 }
+  }
+  return null
+}
+
+// Pitch from an audio file's name: a note ("C4", "piano_F#3", "Bb2", with
+// C4 = 60) or a MIDI number ("60") at the end. Null if there is neither.
+export function pitchFromFileName(fileName: string): number | null {
+  const base = fileName.replace(/\.[^.]+$/, '')
+  const note = base.match(/(?:^|[^A-Za-z])([A-Ga-g])([#b]?)(-?\d)$/)
+  if (note) {
+    const semitones: Record<string, number> = { c: 0, d: 2, e: 4, f: 5, g: 7, a: 9, b: 11 }
+    const accidental = note[2] === '#' ? 1 : note[2] === 'b' ? -1 : 0
+    const pitch = (Number(note[3]) + 1) * 12 + semitones[note[1]!.toLowerCase()]! + accidental
+    return pitch >= 0 && pitch <= 127 ? pitch : null
+  }
+  const number = base.match(/(?:^|\D)(\d{1,3})$/)
+  if (number && Number(number[1]) <= 127) return Number(number[1])
+  return null
+}
+
+export function createInstrumentLibrary(config: InstrumentLibraryConfig = {}) {
+  const storage = config.storage === undefined ? getDefaultStorage() : config.storage
+  const storageKey = config.storageKey ?? DEFAULT_STORAGE_KEY
+
+  const instruments = reactive<InstrumentSettings[]>(BUILTIN_INSTRUMENTS.map(instrument => ({
+    ...instrument,
+    envelope: { ...instrument.envelope }
+  })))
+  // Track id → instrument id
+  const trackInstruments = reactive<Record<string, string>>({})
+
+  // Built-ins only take their volume and envelope from storage
+  const stored = readStoredJson(storage, storageKey) as any
+  if (Array.isArray(stored?.instruments)) {
+    stored.instruments.forEach((raw: any) => {
+      if (typeof raw?.id !== 'string') return
+      const builtin = instruments.find(instrument => instrument.id === raw.id)
+      if (builtin) {
+        builtin.volume = clamp(raw.volume, [MIN_VOLUME, MAX_VOLUME], builtin.volume)
+        builtin.envelope = sanitizeEnvelope(raw.envelope, builtin.envelope)
+        return
+      }
+      const source = sanitizeSource(raw.source)
+      if (!source || source.type === 'preset' || typeof raw.name !== 'string') return
+      instruments.push({
+        id: raw.id,
+        name: raw.name,
+        source,
+        volume: clamp(raw.volume, [MIN_VOLUME, MAX_VOLUME], 0),
+        envelope: sanitizeEnvelope(raw.envelope, DEFAULT_ENVELOPE)
+      })
+    })
+  }
+  if (stored?.tracks && typeof stored.tracks === 'object') {
+    Object.entries(stored.tracks).forEach(([trackId, instrumentId]) => {
+      if (typeof instrumentId === 'string' && instruments.some(instrument => instrument.id === instrumentId)) {
+        trackInstruments[trackId] = instrumentId
+      }
+    })
+  }
+
+  const persist = () => writeStoredJson(storage, storageKey, { instruments, tracks: trackInstruments })
+
+  function getInstrument(id: string): InstrumentSettings | undefined {
+    return instruments.find(instrument => instrument.id === id)
+  }
+
+  function isBuiltin(id: string): boolean {
+    return BUILTIN_INSTRUMENTS.some(instrument => instrument.id === id)
+  }
+
+  function add(input: InstrumentInput): InstrumentSettings {
+    const source = sanitizeSource(input.source)
+    if (!source || source.type === 'preset') throw new Error('New instruments need samples or a SoundFont')
+
+    const instrument: InstrumentSettings = {
+      id: uid('instrument_'),
+      name: input.name.trim() || 'Instrument',
+      source,
+      volume: clamp(input.volume, [MIN_VOLUME, MAX_VOLUME], 0),
+      envelope: sanitizeEnvelope(input.envelope, DEFAULT_ENVELOPE)
+    }
+    instruments.push(instrument)
+    persist()
+    return instrument
+  }
+
+  // Values are clamped to their ranges; built-ins keep their name and source
+  function update(id: string, patch: Partial<Omit<InstrumentSettings, 'id'>>): boolean {
+    const instrument = getInstrument(id)
+    if (!instrument) return false
+
+    if (patch.volume !== undefined) instrument.volume = clamp(patch.volume, [MIN_VOLUME, MAX_VOLUME], instrument.volume)
+    if (patch.envelope) instrument.envelope = sanitizeEnvelope({ ...instrument.envelope, ...patch.envelope }, instrument.envelope)
+    if (!isBuiltin(id)) {
+      if (patch.name?.trim()) instrument.name = patch.name.trim()
+      const source = patch.source && sanitizeSource(patch.source)
+      if (source && source.type !== 'preset') instrument.source = source
+    }
+    persist()
+    return true
+  }
+
+  // Built-ins can't be removed; tracks on a removed instrument forget it
+  function remove(id: string): boolean {
+    const index = instruments.findIndex(instrument => instrument.id === id)
+    if (index === -1 || isBuiltin(id)) return false
+    instruments.splice(index, 1)
+    Object.keys(trackInstruments).forEach(trackId => {
+      if (trackInstruments[trackId] === id) delete trackInstruments[trackId]
+    })
+    persist()
+    return true
+  }
+
+  function setTrackInstrument(trackId: string, instrumentId: string) {
+    if (trackInstruments[trackId] === instrumentId || !getInstrument(instrumentId)) return
+    trackInstruments[trackId] = instrumentId
+    persist()
+  }
+
+  return {
+    instruments,
+    trackInstruments,
+    getInstrument,
+    isBuiltin,
+    add,
+    update,
+    remove,
+    setTrackInstrument
+  }
+}
+
+export type InstrumentLibrary = ReturnType<typeof createInstrumentLibrary>
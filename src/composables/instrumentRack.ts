@@ -0,0 +1,241 @@
+import { reactive } from 'vue'
+import * as Tone from 'tone'
+import { parseSoundFont, SoundFontError, type SoundFontPreset } from '../components/pianoRoll/soundFont'
+import { pitchFromFileName, type InstrumentLibrary, type InstrumentSettings, type SynthPreset } from './instrumentLibrary'
+
+// The sounding side of the instrument library: Tone voices for each track and
+// the decoded audio behind sampled instruments. Audio only lives here, so a
+// sampler falls back to the default synth until its files are loaded again.
+
+export type InstrumentVoice = Tone.PolySynth<any> | Tone.Sampler
+
+// Pitch → decoded audio; the sampler repitches between them
+type SampleSet = Map<number, AudioBuffer>
+
+// What is in memory for an instrument, for the instrument panel
+export interface LoadedAudio {
+  sampleCount: number
+  soundFontPresets?: Array<{ name: string, bank: number, program: number }>
+}
+
+export type LoadResult = { instrument: InstrumentSettings, skipped: string[] } | { error: string }
+
+export interface LoadOptions {
+  instrumentId?: string  // reload files for this instrument instead of adding one
+  name?: string
+}
+
+// ================= Voices =================
+
+function createPresetSynth(preset: SynthPreset): Tone.PolySynth<any> {
+  switch (preset) {
+    case 'fm':
+      return new Tone.PolySynth(Tone.FMSynth)
+    case 'am':
+      return new Tone.PolySynth(Tone.AMSynth)
+    case 'mono':
+      return new Tone.PolySynth(Tone.MonoSynth)
+    case 'keys':
+      return new Tone.PolySynth(Tone.FMSynth, { harmonicity: 3, modulationIndex: 6, oscillator: { type: 'sine' }, modulation: { type: 'sine' } })
+    case 'bass':
+      return new Tone.PolySynth(Tone.MonoSynth, {
+        oscillator: { type: 'sawtooth' },
+        filter: { Q: 2, type: 'lowpass' },
+        filterEnvelope: { attack: 0.005, decay: 0.2, sustain: 0.3, baseFrequency: 120, octaves: 2.5 }
+      })
+    case 'pad':
+      return new Tone.PolySynth(Tone.Synth, { oscillator: { type: 'fatsawtooth', count: 3, spread: 30 } })
+    case 'drums':
+      return new Tone.PolySynth(Tone.MembraneSynth)
+    default:
+      return new Tone.PolySynth(Tone.Synth)
+  }
+}
+
+function createVoice(settings: InstrumentSettings, samples: SampleSet | null): InstrumentVoice {
+  if (settings.source.type === 'preset') return createPresetSynth(settings.source.preset)
+  if (!samples) return createPresetSynth('synth')
+
+  const urls: Record<number, AudioBuffer> = {}
+  samples.forEach((buffer, pitch) => { urls[pitch] = buffer })
+  return new Tone.Sampler({ urls })
+}
+
+// Samplers only have an attack and a release
+function applySettings(voice: InstrumentVoice, settings: InstrumentSettings) {
+  voice.volume.value = settings.volume
+  if (voice instanceof Tone.Sampler) {
+    voice.attack = settings.envelope.attack
+    voice.release = settings.envelope.release
+  } else {
+    voice.set({ envelope: { ...settings.envelope } })
+  }
+}
+
+// ================= Audio =================
+
+// Files need a pitch in their name; later files for the same pitch are skipped
+async function decodeSampleFiles(files: File[]): Promise<{ samples: SampleSet, skipped: string[] }> {
+  const samples: SampleSet = new Map()
+  const skipped: string[] = []
+  for (const file of files) {
+    const pitch = pitchFromFileName(file.name)
+    if (pitch === null || samples.has(pitch)) {
+      skipped.push(file.name)
+      continue
+    }
+    try {
+      samples.set(pitch, await Tone.getContext().decodeAudioData(await file.arrayBuffer()))
+    } catch (error) {
+      console.error(`Failed to decode ${file.name}:`, error)
+      skipped.push(file.name)
+    }
+  }
+  return { samples, skipped }
+}
+
+// One sample per root key, the first one winning. Key ranges are not kept:
+// the sampler plays each note from the nearest root key.
+function soundFontSamples(preset: SoundFontPreset): SampleSet {
+  const samples: SampleSet = new Map()
+  preset.samples.forEach(sample => {
+    // AudioBuffers only take rates from 3 to 768 kHz
+    if (samples.has(sample.rootKey) || sample.sampleRate < 3000 || sample.sampleRate > 768000) return
+    const buffer = Tone.getContext().createBuffer(1, sample.data.length, sample.sampleRate)
+    buffer.getChannelData(0).set(sample.data)
+    samples.set(sample.rootKey, buffer)
+  })
+  return samples
+}
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '')
+
+// ================= Rack =================
+
+export function createInstrumentRack(library: InstrumentLibrary) {
+  const loaded = reactive<Record<string, LoadedAudio>>({})
+  const sampleSets = new Map<string, SampleSet>()
+  const soundFonts = new Map<string, SoundFontPreset[]>()
+  // One voice per track, rebuilt when the track's instrument or its audio changes
+  const trackVoices = new Map<string, { instrumentId: string, samples: SampleSet | null, settings: string, voice: InstrumentVoice }>()
+
+  const setSamples = (instrumentId: string, samples: SampleSet, soundFont?: SoundFontPreset[]) => {
+    sampleSets.set(instrumentId, samples)
+    loaded[instrumentId] = {
+      sampleCount: samples.size,
+      soundFontPresets: soundFont?.map(({ name, bank, program }) => ({ name, bank, program }))
+    }
+  }
+
+  // Adds an instrument, or updates the one given, when the files are usable
+  const saveInstrument = (options: LoadOptions, input: Pick<InstrumentSettings, 'name' | 'source'>): InstrumentSettings => {
+    if (options.instrumentId && library.update(options.instrumentId, { source: input.source })) {
+      return library.getInstrument(options.instrumentId)!
+    }
+    return library.add({ ...input, name: options.name?.trim() || input.name })
+  }
+
+  async function loadSamples(files: File[], options: LoadOptions = {}): Promise<LoadResult> {
+    const { samples, skipped } = await decodeSampleFiles(files)
+    if (samples.size === 0) {
+      return { error: 'No file could be used. Name each file after its pitch, e.g. "C4.wav", "F#3.mp3" or "60.wav".' }
+    }
+    const used = files.map(file => file.name).filter(name => !skipped.includes(name))
+    const instrument = saveInstrument(options, {
+      name: files.length === 1 ? baseName(files[0]!.name) : 'Samples',
+      source: { type: 'samples', files: used }
+    })
+    setSamples(instrument.id, samples)
+    return { instrument, skipped }
+  }
+
+  async function loadSoundFont(file: File, options: LoadOptions = {}): Promise<LoadResult> {
+    let presets: SoundFontPreset[]
+    try {
+      presets = parseSoundFont(await file.arrayBuffer())
+    } catch (error) {
+      if (error instanceof SoundFontError) return { error: error.message }
+      throw error
+    }
+
+    // A reloaded file keeps its preset choice if the file still has it
+    const previous = options.instrumentId ? library.getInstrument(options.instrumentId)?.source : undefined
+    const index = previous?.type === 'soundfont' && previous.preset < presets.length ? previous.preset : 0
+    const instrument = saveInstrument(options, {
+      name: presets[index]!.name || baseName(file.name),
+      source: { type: 'soundfont', file: file.name, preset: index }
+    })
+    soundFonts.set(instrument.id, presets)
+    setSamples(instrument.id, soundFontSamples(presets[index]!), presets)
+    return { instrument, skipped: [] }
+  }
+
+  function selectSoundFontPreset(instrumentId: string, index: number): boolean {
+    const source = library.getInstrument(instrumentId)?.source
+    const presets = soundFonts.get(instrumentId)
+    if (source?.type !== 'soundfont' || !presets?.[index]) return false
+
+    library.update(instrumentId, { source: { ...source, preset: index } })
+    setSamples(instrumentId, soundFontSamples(presets[index]!), presets)
+    return true
+  }
+
+  // Sampled instruments need their audio in memory to sound
+  function isReady(instrumentId: string): boolean {
+    const instrument = library.getInstrument(instrumentId)
+    return !!instrument && (instrument.source.type === 'preset' || instrumentId in loaded)
+  }
+
+  function remove(instrumentId: string): boolean {
+    if (!library.remove(instrumentId)) return false
+    sampleSets.delete(instrumentId)
+    soundFonts.delete(instrumentId)
+    delete loaded[instrumentId]
+    return true
+  }
+
+  // The track's voice, with the instrument's current volume and envelope.
+  // Unknown instruments play on the default synth.
+  function getTrackVoice(trackId: string, instrumentId: string): InstrumentVoice {
+    const settings = library.getInstrument(instrumentId) ?? library.getInstrument('synth')!
+    const samples = sampleSets.get(settings.id) ?? null
+    let entry = trackVoices.get(trackId)
+
+    if (!entry || entry.instrumentId !== settings.id || entry.samples !== samples) {
+      entry?.voice.dispose()
+      entry = { instrumentId: settings.id, samples, settings: '', voice: createVoice(settings, samples).toDestination() }
+      trackVoices.set(trackId, entry)
+    }
+    const key = JSON.stringify([settings.volume, settings.envelope])
+    if (entry.settings !== key) {
+      applySettings(entry.voice, settings)
+      entry.settings = key
+    }
+    return entry.voice
+  }
+
+  // The voice a track last played on, to release its notes
+  function getPlayingVoice(trackId: string): InstrumentVoice | undefined {
+    return trackVoices.get(trackId)?.voice
+  }
+
+  function dispose() {
+    trackVoices.forEach(({ voice }) => voice.dispose())
+    trackVoices.clear()
+  }
+
+  return {
+    library,
+    loaded,
+    loadSamples,
+    loadSoundFont,
+    selectSoundFontPreset,
+    isReady,
+    remove,
+    getTrackVoice,
+    getPlayingVoice,
+    dispose
+  }
+}
+
+export type InstrumentRack = ReturnType<typeof createInstrumentRack>
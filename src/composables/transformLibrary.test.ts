@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { createTransformLibrary, type KeyValueStorage } from './transformLibrary'
+
+function createMemoryStorage(): KeyValueStorage {
+  const data = new Map<string, string>()
+  return {
+    getItem: key => data.get(key) ?? null,
+    setItem: (key, value) => { data.set(key, value) }
+  }
+}
+
+const entry = (name: string, code = `function ${name}(notes) { return notes; }`) => ({
+  name,
+  code,
+  functionName: name,
+  summary: `${name} the notes`,
+  params: [{ name: 'amount', type: 'number' as const, optional: false, description: 'How much' }]
+})
+
+describe('createTransformLibrary', () => {
+  it('persists entries and restores them', () => {
+    const storage = createMemoryStorage()
+    const library = createTransformLibrary({ storage })
+    library.save(entry('humanize'))
+    library.save(entry('humanize', 'function humanize(notes) { return []; }'))
+
+    const restored = createTransformLibrary({ storage })
+
+    expect(restored.entries).toHaveLength(1)
+    expect(restored.entries[0]).toMatchObject({ name: 'humanize', code: 'function humanize(notes) { return []; }' })
+  })
+
+  it('searches names, summaries and params with every query word', () => {
+    const library = createTransformLibrary({ storage: null })
+    library.save(entry('transpose'))
+    library.save({ ...entry('swing'), summary: 'Delay off-beat eighths' })
+
+    expect(library.search('').map(e => e.name)).toEqual(['swing', 'transpose'])
+    expect(library.search('OFF-BEAT').map(e => e.name)).toEqual(['swing'])
+    expect(library.search('amount trans').map(e => e.name)).toEqual(['transpose'])
+  })
+
+  it('round-trips a bundle, skipping duplicates and renaming clashes', () => {
+    const source = createTransformLibrary({ storage: null })
+    source.save(entry('transpose'))
+    source.save(entry('swing'))
+
+    const target = createTransformLibrary({ storage: null })
+    target.save(entry('transpose'))
+    target.save(entry('swing', 'function swing(notes) { return notes.reverse(); }'))
+
+    const { imported, skipped } = target.importBundle(source.exportBundle())
+
+    expect(skipped).toBe(1)
+    expect(imported.map(e => e.name)).toEqual(['swing (2)'])
+    expect(imported[0]!.params).toEqual(entry('swing').params)
+  })
+
+  it('rejects files that are not bundles', () => {
+    const library = createTransformLibrary({ storage: null })
+
+    expect(() => library.importBundle('{')).toThrow('Not valid JSON')
+    expect(() => library.importBundle('{"transforms": []}')).toThrow('Not a transform bundle')
+  })
+})
@@ -0,0 +1,255 @@
+import { reactive } from 'vue'
+import { uid } from '../components/pianoRoll/pianoRollUtils'
+import type { ParamInfo } from './transformParams'
+
+// Named transforms kept beyond the 8 active slots. Entries are saved to local
+// storage and can be shared as a JSON bundle; code is re-validated (and
+// smoke-tested) when an entry is loaded into a slot, so imported metadata is
+// only used for listing and searching.
+
+export interface TransformLibraryEntry {
+  id: string
+  name: string
+  code: string
+  functionName?: string
+  summary?: string
+  params: ParamInfo[]
+  updatedAt: number
+}
+
+export type TransformLibraryEntryInput = Omit<TransformLibraryEntry, 'id' | 'updatedAt'>
+
+export interface TransformBundle {
+  format: typeof BUNDLE_FORMAT
+  version: number
+  transforms: TransformLibraryEntryInput[]
+}
+
+// Only the part of the Web Storage API we use, so tests can pass a Map-backed fake
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem'>
+
+export interface TransformLibraryConfig {
+  storage?: KeyValueStorage | null  // null disables persistence
+  storageKey?: string
+}
+
+const BUNDLE_FORMAT = 'piano-roll-transforms'
+const BUNDLE_VERSION = 1
+const DEFAULT_STORAGE_KEY = 'pianoRoll.transformLibrary'
+const PARAM_TYPES = ['number', 'boolean', 'string', 'enum', 'pitch']
+
+// localStorage can be missing (Node, workers) or throw on access (blocked cookies)
+export function getDefaultStorage(): KeyValueStorage | null {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage
+  } catch {
+    return null
+  }
+}
+
+export function readStoredJson(storage: KeyValueStorage | null, key: string): unknown {
+  if (!storage) return null
+  try {
+    const text = storage.getItem(key)
+    return text ? JSON.parse(text) : null
+  } catch (error) {
+    console.warn(`Ignoring unreadable saved data in "${key}"`, error)
+    return null
+  }
+}
+
+export function writeStoredJson(storage: KeyValueStorage | null, key: string, value: unknown) {
+  if (!storage) return
+  try {
+    storage.setItem(key, JSON.stringify(value))
+  } catch (error) {
+    console.warn(`Could not save "${key}"`, error)
+  }
+}
+
+function sanitizeParam(raw: any): ParamInfo | null {
+  if (!raw || typeof raw.name !== 'string') return null
+
+  const param: ParamInfo = {
+    name: raw.name,
+    type: PARAM_TYPES.includes(raw.type) ? raw.type : 'number',
+    optional: raw.optional === true
+  }
+  if (typeof raw.description === 'string') param.description = raw.description
+  if (['number', 'string', 'boolean'].includes(typeof raw.default)) param.default = raw.default
+  if (Array.isArray(raw.options)) param.options = raw.options.map(String)
+  if (typeof raw.min === 'number') param.min = raw.min
+  if (typeof raw.max === 'number') param.max = raw.max
+  return param
+}
+
+// Shape-check one entry from storage or an imported bundle
+function sanitizeEntry(raw: any): TransformLibraryEntryInput | null {
+  if (!raw || typeof raw.name !== 'string' || !raw.name.trim() || typeof raw.code !== 'string') return null
+
+  return {
+    name: raw.name.trim(),
+    code: raw.code,
+    functionName: typeof raw.functionName === 'string' ? raw.functionName : undefined,
+    summary: typeof raw.summary === 'string' ? raw.summary : undefined,
+    params: Array.isArray(raw.params)
+      ? raw.params.map(sanitizeParam).filter((p: ParamInfo | null): p is ParamInfo => p !== null)
+      : []
+  }
+}
+
+export function createTransformLibrary(config: TransformLibraryConfig = {}) {
+  const storage = config.storage === undefined ? getDefaultStorage() : config.storage
+  const storageKey = config.storageKey ?? DEFAULT_STORAGE_KEY
+
+  const entries = reactive<TransformLibraryEntry[]>([])
+
+  const stored = readStoredJson(storage, storageKey)
+  if (Array.isArray(stored)) {
+    stored.forEach((raw: any) => {
+      const entry = sanitizeEntry(raw)
+      if (!entry) return
+      entries.push({
+        ...entry,
+        id: typeof raw.id === 'string' ? raw.id : uid('transform_'),
+        updatedAt: typeof raw.updatedAt === 'number' ? raw.updatedAt : Date.now()
+      })
+    })
+  }
+
+  const persist = () => writeStoredJson(storage, storageKey, entries)
+
+  function getEntry(id: string): TransformLibraryEntry | undefined {
+    return entries.find(entry => entry.id === id)
+  }
+
+  function findByName(name: string): TransformLibraryEntry | undefined {
+    const key = name.trim().toLowerCase()
+    return entries.find(entry => entry.name.toLowerCase() === key)
+  }
+
+  // Saving under an existing name overwrites that entry
+  function save(input: TransformLibraryEntryInput): TransformLibraryEntry {
+    const entry = sanitizeEntry(input)
+    if (!entry) throw new Error('A library entry needs a name and code')
+
+    const existing = findByName(entry.name)
+    if (existing) {
+      Object.assign(existing, entry, { updatedAt: Date.now() })
+      persist()
+      return existing
+    }
+
+    entries.push({ ...entry, id: uid('transform_'), updatedAt: Date.now() })
+    persist()
+    return entries[entries.length - 1]!
+  }
+
+  function remove(id: string): boolean {
+    const index = entries.findIndex(entry => entry.id === id)
+    if (index < 0) return false
+    entries.splice(index, 1)
+    persist()
+    return true
+  }
+
+  function rename(id: string, name: string): boolean {
+    const entry = getEntry(id)
+    const trimmed = name.trim()
+    if (!entry || !trimmed) return false
+
+    const clash = findByName(trimmed)
+    if (clash && clash.id !== id) return false
+
+    entry.name = trimmed
+    entry.updatedAt = Date.now()
+    persist()
+    return true
+  }
+
+  // Case-insensitive match on name, function name, summary and param names;
+  // every word of the query has to match somewhere
+  function search(query: string): TransformLibraryEntry[] {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+    const sorted = [...entries].sort((a, b) => a.name.localeCompare(b.name))
+    if (words.length === 0) return sorted
+
+    return sorted.filter(entry => {
+      const haystack = [
+        entry.name,
+        entry.functionName ?? '',
+        entry.summary ?? '',
+        ...entry.params.map(p => `${p.name} ${p.description ?? ''}`)
+      ].join(' ').toLowerCase()
+      return words.every(word => haystack.includes(word))
+    })
+  }
+
+  function exportBundle(ids?: string[]): string {
+    const selected = ids ? entries.filter(entry => ids.includes(entry.id)) : entries
+    const bundle: TransformBundle = {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      transforms: selected.map(({ name, code, functionName, summary, params }) => ({ name, code, functionName, summary, params }))
+    }
+    return JSON.stringify(bundle, null, 2)
+  }
+
+  // Entries whose name is taken by different code are imported as "name (2)";
+  // exact duplicates are skipped. Throws on anything that isn't a bundle.
+  function importBundle(json: string): { imported: TransformLibraryEntry[]; skipped: number } {
+    let bundle: any
+    try {
+      bundle = JSON.parse(json)
+    } catch (error: any) {
+      throw new Error(`Not valid JSON: ${error.message}`)
+    }
+    if (!bundle || bundle.format !== BUNDLE_FORMAT || !Array.isArray(bundle.transforms)) {
+      throw new Error('Not a transform bundle')
+    }
+    if (typeof bundle.version !== 'number' || bundle.version > BUNDLE_VERSION) {
+      throw new Error(`Unsupported bundle version ${bundle.version}`)
+    }
+
+    const imported: TransformLibraryEntry[] = []
+    let skipped = 0
+
+    bundle.transforms.forEach((raw: any) => {
+      const entry = sanitizeEntry(raw)
+      if (!entry) {
+        skipped++
+        return
+      }
+
+      const existing = findByName(entry.name)
+      if (existing?.code === entry.code) {
+        skipped++
+        return
+      }
+
+      let name = entry.name
+      for (let n = 2; findByName(name); n++) {
+        name = `${entry.name} (${n})`
+      }
+
+      entries.push({ ...entry, name, id: uid('transform_'), updatedAt: Date.now() })
+      imported.push(entries[entries.length - 1]!)
+    })
+
+    if (imported.length > 0) persist()
+    return { imported, skipped }
+  }
+
+  return {
+    entries,
+    getEntry,
+    save,
+    remove,
+    rename,
+    search,
+    exportBundle,
+    importBundle
+  }
+}
+
+export type TransformLibrary = ReturnType<typeof createTransformLibrary>
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { applyParamTag, coerceParamValue, createParam, getParamFieldDefault, parsePitchName } from './transformParams'
+
+function tag(type: string, nameText: string, description = '') {
+  const param = createParam(nameText.replace(/^\[\s*(\w+).*$/, '$1'))
+  applyParamTag(param, type, nameText, description)
+  return param
+}
+
+describe('applyParamTag', () => {
+  it('reads number ranges and bounds from the description', () => {
+    expect(tag('number', 'semitones', 'Interval (-12 to 12)')).toMatchObject({ min: -12, max: 12 })
+    expect(tag('number', 'velocity', 'Velocity 0-127')).toMatchObject({ min: 0, max: 127 })
+    expect(tag('number', 'amount', 'Amount, min 0, max 4, default 1')).toMatchObject({ min: 0, max: 4, default: 1 })
+  })
+
+  it('marks bracketed names as optional with their default', () => {
+    expect(tag('boolean', '[legato=true]')).toMatchObject({ type: 'boolean', optional: true, default: true })
+    expect(tag('string', '[label]')).toEqual({ name: 'label', type: 'string', optional: true })
+  })
+})
+
+describe('coerceParamValue', () => {
+  it('clamps numbers and rejects non-numbers', () => {
+    const param = tag('number', 'amount', '0 to 1')
+
+    expect(coerceParamValue(param, 3)).toEqual({ value: 1 })
+    expect(coerceParamValue(param, '0.5')).toEqual({ value: 0.5 })
+    expect(coerceParamValue(param, 'lots').error).toBe('"amount" must be a number')
+  })
+
+  it('falls back to the default and requires values without one', () => {
+    expect(coerceParamValue(tag('number', '[amount=2]'), undefined)).toEqual({ value: 2 })
+    expect(coerceParamValue(tag('number', '[amount]'), undefined)).toEqual({ value: undefined })
+    expect(coerceParamValue(tag('number', 'amount'), '').error).toBe('Missing required parameter "amount"')
+  })
+
+  it('accepts boolean strings from form fields', () => {
+    expect(coerceParamValue(tag('boolean', 'hold'), 'true')).toEqual({ value: true })
+    expect(coerceParamValue(tag('boolean', 'hold'), false)).toEqual({ value: false })
+  })
+})
+
+describe('parsePitchName', () => {
+  it.each([
+    ['C4', 60],
+    ['c#4', 61],
+    ['Db4', 61],
+    ['A-1', 9],
+    ['B9', null],
+    ['72', 72],
+    ['200', null],
+    [64, 64],
+    [-1, null],
+    ['H2', null]
+  ])('%s -> %s', (input, expected) => {
+    expect(parsePitchName(input)).toBe(expected)
+  })
+})
+
+describe('getParamFieldDefault', () => {
+  it('uses the JSDoc default, else a neutral value for the type', () => {
+    expect(getParamFieldDefault({ ...tag('number', 'amount'), default: 3 })).toBe(3)
+    expect(getParamFieldDefault(tag('number', 'amount'))).toBe(0)
+    expect(getParamFieldDefault(tag('boolean', 'hold'))).toBe(false)
+    expect(getParamFieldDefault(tag("'up'|'down'", 'direction'))).toBe('up')
+    expect(getParamFieldDefault(tag('pitch', 'root'))).toBe('')
+  })
+})
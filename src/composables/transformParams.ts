@@ -0,0 +1,205 @@
+import type { TransformArg } from './transformRunner'
+
+// Typed transform parameters, read from JSDoc `@param {type} name - description`.
+//
+//   {number}            number; "-12 to 12", "0-127", "min 0", "max 4", "default 1" in the description
+//   {boolean}           true/false
+//   {string}            free text
+//   {'major'|'minor'}   one of the listed strings
+//   {pitch}             pitch name like "C#4" (C4 = 60) or a MIDI number; passed on as a number
+//   [name=default]      optional, with a default value
+
+export type ParamType = 'number' | 'boolean' | 'string' | 'enum' | 'pitch'
+
+// Raw value from a form field, before coerceParamValue
+export type ParamInputValue = number | string | boolean
+
+export interface ParamInfo {
+  name: string
+  description?: string
+  type: ParamType
+  optional: boolean
+  default?: TransformArg
+  options?: string[]  // enum values
+  min?: number
+  max?: number
+}
+
+const NUMBER = '[-+]?\\d+(?:\\.\\d+)?'
+const RANGE_PATTERN = new RegExp(`(${NUMBER})\\s*(?:to|\\.\\.|–|-)\\s*(${NUMBER})`)
+const MIN_PATTERN = new RegExp(`\\bmin(?:imum)?\\s*[:=]?\\s*(${NUMBER})`, 'i')
+const MAX_PATTERN = new RegExp(`\\bmax(?:imum)?\\s*[:=]?\\s*(${NUMBER})`, 'i')
+const DEFAULT_PATTERN = /\bdefault(?:s to)?\s*[:=]?\s*("[^"]*"|'[^']*'|[^\s,;)]+)/i
+
+const PITCH_CLASSES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 }
+
+export function createParam(name: string): ParamInfo {
+  return { name, type: 'number', optional: false }
+}
+
+function parseLiteral(text: string): TransformArg {
+  const trimmed = text.trim()
+  if (/^(["']).*\1$/.test(trimmed)) return trimmed.slice(1, -1)
+  if (trimmed === 'true' || trimmed === 'false') return trimmed === 'true'
+  const number = Number(trimmed)
+  return trimmed !== '' && !Number.isNaN(number) ? number : trimmed
+}
+
+function parseType(typeText: string): Pick<ParamInfo, 'type' | 'options'> {
+  const type = typeText.trim()
+  const literals = type.split('|').map(part => part.trim())
+  if (literals.every(part => /^(["']).*\1$/.test(part))) {
+    return { type: 'enum', options: literals.map(part => part.slice(1, -1)) }
+  }
+
+  switch (type.toLowerCase()) {
+    case 'boolean':
+    case 'bool':
+      return { type: 'boolean' }
+    case 'string':
+      return { type: 'string' }
+    case 'pitch':
+      return { type: 'pitch' }
+    default:
+      return { type: 'number' }
+  }
+}
+
+// Fill in type, optional/default and number bounds from one `@param` tag.
+// `nameText` is the raw name token, e.g. `amount` or `[amount=0.5]`.
+export function applyParamTag(param: ParamInfo, typeText: string, nameText: string, description: string) {
+  Object.assign(param, parseType(typeText))
+  if (description) param.description = description
+
+  const bracket = nameText.match(/^\[\s*\w+\s*(?:=\s*(.*?))?\s*\]$/)
+  if (bracket) {
+    param.optional = true
+    if (bracket[1] !== undefined) param.default = parseLiteral(bracket[1])
+  }
+
+  if (param.default === undefined) {
+    const defaultMatch = description.match(DEFAULT_PATTERN)
+    if (defaultMatch) param.default = parseLiteral(defaultMatch[1]!)
+  }
+
+  if (param.type === 'number') {
+    const range = description.match(RANGE_PATTERN)
+    if (range) {
+      param.min = Math.min(Number(range[1]), Number(range[2]))
+      param.max = Math.max(Number(range[1]), Number(range[2]))
+    }
+    const min = description.match(MIN_PATTERN)
+    const max = description.match(MAX_PATTERN)
+    if (min) param.min = Number(min[1])
+    if (max) param.max = Number(max[1])
+  }
+}
+
+// "C4" = 60, "C#4" / "Db4" = 61, "A-1" = 9. Plain numbers are taken as MIDI pitches.
+export function parsePitchName(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? toMidiPitch(Math.round(value)) : null
+  if (typeof value !== 'string') return null
+
+  const text = value.trim()
+  if (/^\d+$/.test(text)) return toMidiPitch(Number(text))
+
+  const match = text.match(/^([A-Ga-g])([#b♯♭]*)(-?\d+)$/)
+  if (!match) return null
+
+  const [, letter, accidentals, octave] = match
+  const offset = Array.from(accidentals!).reduce((sum, char) => sum + (char === '#' || char === '♯' ? 1 : -1), 0)
+  return toMidiPitch((Number(octave) + 1) * 12 + PITCH_CLASSES[letter!.toUpperCase()]! + offset)
+}
+
+function toMidiPitch(pitch: number): number | null {
+  return pitch >= 0 && pitch <= 127 ? pitch : null
+}
+
+// What a form field shows before it is touched: the JSDoc default, else a
+// neutral value for the type (numbers start at 0)
+export function getParamFieldDefault(param: ParamInfo): ParamInputValue {
+  if (param.default !== undefined) return param.default
+  if (param.type === 'number') return 0
+  if (param.type === 'boolean') return false
+  if (param.type === 'enum') return param.options?.[0] ?? ''
+  return ''
+}
+
+// Convert a raw value (tool input or form field) to the argument passed to the transform
+export function coerceParamValue(param: ParamInfo, raw: unknown): { value?: TransformArg, error?: string } {
+  if (raw === undefined || raw === null || raw === '') {
+    if (param.default !== undefined) return coerceParamValue(param, param.default)
+    if (param.optional) return { value: undefined }
+    return { error: `Missing required parameter "${param.name}"` }
+  }
+
+  switch (param.type) {
+    case 'boolean':
+      return { value: raw === true || raw === 'true' }
+    case 'string':
+      return { value: String(raw) }
+    case 'enum': {
+      const value = String(raw)
+      return param.options?.includes(value)
+        ? { value }
+        : { error: `"${param.name}" must be one of: ${param.options?.join(', ')}` }
+    }
+    case 'pitch': {
+      const pitch = parsePitchName(raw)
+      return pitch === null
+        ? { error: `"${param.name}" must be a pitch name like "C#4" or a MIDI number 0-127` }
+        : { value: pitch }
+    }
+    default: {
+      const number = Number(raw)
+      if (Number.isNaN(number)) return { error: `"${param.name}" must be a number` }
+      return { value: Math.min(param.max ?? Infinity, Math.max(param.min ?? -Infinity, number)) }
+    }
+  }
+}
+
+// JSON schema property for a tool definition
+export function paramToSchema(param: ParamInfo): Record<string, any> {
+  const description = param.description || `Parameter ${param.name}`
+  const schema: Record<string, any> = { description }
+
+  switch (param.type) {
+    case 'boolean':
+      schema.type = 'boolean'
+      break
+    case 'string':
+      schema.type = 'string'
+      break
+    case 'enum':
+      schema.type = 'string'
+      schema.enum = param.options
+      break
+    case 'pitch':
+      schema.type = ['string', 'number']
+      schema.description = `${description} (pitch name like "C#4" where C4 = 60, or a MIDI number)`
+      break
+    default:
+      schema.type = 'number'
+      if (param.min !== undefined) schema.minimum = param.min
+      if (param.max !== undefined) schema.maximum = param.max
+  }
+
+  if (param.default !== undefined) schema.default = param.default
+  return schema
+}
+
+// Short human/LLM-readable description, e.g. "semitones (number -12..12, default 0): Interval"
+export function describeParam(param: ParamInfo): string {
+  const details: string[] = []
+  if (param.type === 'enum') {
+    details.push(`one of ${param.options?.map(option => `"${option}"`).join('|')}`)
+  } else if (param.type === 'number' && (param.min !== undefined || param.max !== undefined)) {
+    details.push(`number ${param.min ?? ''}..${param.max ?? ''}`)
+  } else {
+    details.push(param.type)
+  }
+  if (param.default !== undefined) details.push(`default ${JSON.stringify(param.default)}`)
+  else if (param.optional) details.push('optional')
+
+  return `${param.name} (${details.join(', ')})${param.description ? `: ${param.description}` : ''}`
+}
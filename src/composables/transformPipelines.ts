@@ -0,0 +1,92 @@
+import type { ParamInfo } from './transformParams'
+import type { TransformArg } from './transformRunner'
+
+// A pipeline is a named sequence of transform tool calls (built-ins or slots)
+// that runs as one operation. Each step's args are fixed unless listed in
+// `expose`, in which case the caller may override them and the stored value
+// becomes the default.
+
+export interface PipelineStep {
+  transform: string  // tool name: builtin_<name> or transform_slot_<n>
+  args: Record<string, TransformArg>
+  expose?: string[]
+}
+
+export interface TransformPipeline {
+  id: string
+  name: string
+  description?: string
+  steps: PipelineStep[]
+}
+
+export type PipelineInput = Omit<TransformPipeline, 'id'>
+
+export interface ExposedParam {
+  stepIndex: number
+  paramName: string    // name in the step's transform
+  param: ParamInfo     // as seen by the caller: renamed, with the step's value as default
+}
+
+export const MAX_PIPELINE_STEPS = 16
+export const PIPELINE_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_-]{0,47}$/
+
+export function pipelineToolName(name: string): string {
+  return `pipeline_${name}`
+}
+
+// Shape-check a pipeline from storage, a tool call or the builder. Whether the
+// referenced transforms exist is checked when it is saved or run.
+export function sanitizePipelineInput(raw: any): PipelineInput | null {
+  if (!raw || typeof raw.name !== 'string' || !Array.isArray(raw.steps)) return null
+
+  const steps: PipelineStep[] = []
+  for (const step of raw.steps) {
+    if (!step || typeof step.transform !== 'string') return null
+
+    const args: Record<string, TransformArg> = {}
+    Object.entries(step.args && typeof step.args === 'object' ? step.args : {}).forEach(([key, value]) => {
+      if (['number', 'string', 'boolean'].includes(typeof value)) args[key] = value as TransformArg
+    })
+
+    steps.push({
+      transform: step.transform,
+      args,
+      expose: Array.isArray(step.expose) ? step.expose.filter((name: unknown) => typeof name === 'string') : []
+    })
+  }
+
+  return {
+    name: raw.name.trim(),
+    description: typeof raw.description === 'string' ? raw.description : undefined,
+    steps
+  }
+}
+
+// Exposed params keep their own name unless two steps expose the same one,
+// in which case both are prefixed with their step number (step2_amount)
+export function getExposedParams(pipeline: PipelineInput, getParams: (transform: string) => ParamInfo[] | null): ExposedParam[] {
+  const exposed: ExposedParam[] = []
+
+  pipeline.steps.forEach((step, stepIndex) => {
+    const params = getParams(step.transform) ?? []
+    step.expose?.forEach(paramName => {
+      const info = params.find(p => p.name === paramName)
+      if (!info) return
+
+      const stepDefault = step.args[paramName]
+      exposed.push({
+        stepIndex,
+        paramName,
+        param: { ...info, default: stepDefault !== undefined ? stepDefault : info.default }
+      })
+    })
+  })
+
+  const counts = new Map<string, number>()
+  exposed.forEach(e => counts.set(e.paramName, (counts.get(e.paramName) ?? 0) + 1))
+  exposed.forEach(e => {
+    if (counts.get(e.paramName)! > 1) e.param.name = `step${e.stepIndex + 1}_${e.paramName}`
+  })
+
+  return exposed
+}
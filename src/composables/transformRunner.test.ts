@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createInlineTransformRunner, createWorkerTransformRunner, type TransformRunRequest } from './transformRunner'
+
+// A stand-in for the transform worker with a global scope of its own, handed to
+// the transform as `globalThis`
+class FakeWorker {
+  static created: FakeWorker[] = []
+  scope: Record<string, unknown> = {}
+  terminated = false
+  onmessage: ((event: { data: unknown }) => void) | null = null
+  onerror = null
+  onmessageerror = null
+
+  constructor() {
+    FakeWorker.created.push(this)
+  }
+
+  postMessage({ request }: { request: TransformRunRequest }) {
+    const transform = new Function('globalThis', `${request.code}\nreturn ${request.functionName};`)(this.scope)
+    const notes = transform(request.notes, ...request.args)
+    queueMicrotask(() => this.onmessage?.({ data: { result: { status: 'ok', notes } } }))
+  }
+
+  terminate() {
+    this.terminated = true
+  }
+}
+
+describe('createWorkerTransformRunner', () => {
+  beforeEach(() => {
+    FakeWorker.created = []
+    vi.stubGlobal('Worker', FakeWorker)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('runs each transform in a fresh worker so globals do not leak between runs', async () => {
+    const run = createWorkerTransformRunner()
+    const request = {
+      code: 'function count(notes) { globalThis.runs = (globalThis.runs ?? 0) + 1; return notes.map(n => ({ ...n, velocity: globalThis.runs })); }',
+      functionName: 'count',
+      notes: [{ pitch: 60, position: 0, duration: 1 }],
+      args: []
+    }
+
+    const first = await run(request)
+    const second = await run(request)
+
+    expect(first).toEqual({ status: 'ok', notes: [{ pitch: 60, position: 0, duration: 1, velocity: 1 }] })
+    expect(second).toEqual(first)
+    expect(FakeWorker.created).toHaveLength(2)
+    expect(FakeWorker.created.every(worker => worker.terminated)).toBe(true)
+  })
+})
+
+describe('createInlineTransformRunner', () => {
+  it('leaves out note fields a transform omits or sets to something non-numeric', async () => {
+    const result = await createInlineTransformRunner()({
+      code: 'function sparse(notes) { return [{ pitch: 64, position: 2 }, { pitch: "62", duration: "long", velocity: null }]; }',
+      functionName: 'sparse',
+      notes: [],
+      args: []
+    })
+
+    expect(result).toEqual({ status: 'ok', notes: [{ pitch: 64, position: 2 }, { pitch: 62 }] })
+  })
+})
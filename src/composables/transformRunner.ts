@@ -0,0 +1,131 @@
+import type { NoteDataInput } from '../components/pianoRoll/pianoRollState'
+
+// Transform code (user- or Claude-written) never runs on the main thread. It is
+// compiled and executed inside a dedicated worker, with a timeout and a cap on
+// the returned data. Only plain note fields and primitive args cross the boundary.
+// Browsers can't cap a worker's heap directly, so runaway allocation ends in the
+// timeout, the result cap or a worker crash - all reported as errors.
+
+// undefined = optional parameter left out, so the function's own default applies
+export type TransformArg = number | string | boolean | undefined
+
+export interface TransformRunRequest {
+  code: string
+  functionName: string
+  notes: NoteDataInput[]
+  args: TransformArg[]
+}
+
+export type TransformRunResult =
+  | { status: 'ok', notes: NoteDataInput[] }
+  | { status: 'error', error: string }
+
+export type TransformRunner = (request: TransformRunRequest) => Promise<TransformRunResult>
+
+export interface WorkerRunnerOptions {
+  timeoutMs?: number
+  maxResultNotes?: number  // larger results are rejected instead of transferred
+}
+
+const DEFAULT_TIMEOUT_MS = 2000
+const DEFAULT_MAX_RESULT_NOTES = 4096
+
+const NUMERIC_NOTE_FIELDS = ['pitch', 'position', 'duration', 'velocity'] as const
+
+// Copy only the known note fields so nothing else (functions, getters, huge
+// nested objects) is passed on. Missing or non-numeric fields stay undefined,
+// so the caller's defaults apply instead of NaN.
+function toPlainNote(note: any): NoteDataInput {
+  const plain = {} as NoteDataInput
+  NUMERIC_NOTE_FIELDS.forEach(field => {
+    const value = note[field] === null || note[field] === undefined ? NaN : Number(note[field])
+    if (Number.isFinite(value)) plain[field] = value
+  })
+  if (note.id !== undefined) plain.id = String(note.id)
+  if (note.trackId !== undefined) plain.trackId = String(note.trackId)
+  if (note.selected !== undefined) plain.selected = Boolean(note.selected)
+  return plain
+}
+
+export function toPlainRequest(request: TransformRunRequest): TransformRunRequest {
+  return {
+    code: String(request.code),
+    functionName: String(request.functionName),
+    notes: request.notes.map(toPlainNote),
+    args: request.args.map(arg => arg === undefined || typeof arg === 'boolean' || typeof arg === 'string' ? arg : Number(arg))
+  }
+}
+
+// Compile and run a transform in the current realm. Only call this inside the
+// worker (or in tests) - the code has access to whatever globals this realm has.
+export function executeTransform(request: TransformRunRequest, maxResultNotes = DEFAULT_MAX_RESULT_NOTES): TransformRunResult {
+  try {
+    const factory = new Function(
+      '"use strict";\n' +
+      request.code +
+      `\nif (typeof ${request.functionName} !== "function") throw new Error("${request.functionName} is not defined");\n` +
+      `return ${request.functionName};`
+    )
+
+    const result = factory()(request.notes.map(note => ({ ...note })), ...request.args)
+
+    if (!Array.isArray(result)) {
+      return { status: 'error', error: 'Function must return an array' }
+    }
+    if (result.length > maxResultNotes) {
+      return { status: 'error', error: `Transform returned ${result.length} notes (limit ${maxResultNotes})` }
+    }
+    if (result.some(note => note === null || typeof note !== 'object')) {
+      return { status: 'error', error: 'Every returned item must be a note object' }
+    }
+
+    return { status: 'ok', notes: result.map(toPlainNote) }
+  } catch (err: any) {
+    return { status: 'error', error: err?.message ?? String(err) }
+  }
+}
+
+// Runs in-process without isolation. For tests and environments without workers.
+export function createInlineTransformRunner(maxResultNotes = DEFAULT_MAX_RESULT_NOTES): TransformRunner {
+  return async (request) => executeTransform(toPlainRequest(request), maxResultNotes)
+}
+
+// Every run gets a fresh worker that is terminated once it answers, so globals
+// one transform sets can't leak into the next. A run that times out or kills its
+// worker (e.g. runs out of memory) ends with an error and never blocks the editor.
+export function createWorkerTransformRunner(options: WorkerRunnerOptions = {}): TransformRunner {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const maxResultNotes = options.maxResultNotes ?? DEFAULT_MAX_RESULT_NOTES
+
+  return (request) => new Promise<TransformRunResult>(resolve => {
+    let worker: Worker | null = null
+
+    const finish = (result: TransformRunResult) => {
+      clearTimeout(timer)
+      worker?.terminate()
+      worker = null
+      resolve(result)
+    }
+
+    const timer = setTimeout(() => {
+      finish({ status: 'error', error: `Transform timed out after ${timeoutMs} ms` })
+    }, timeoutMs)
+
+    try {
+      worker = new Worker(new URL('./transformWorker.ts', import.meta.url), { type: 'module' })
+      worker.onmessage = (event: MessageEvent<{ result: TransformRunResult }>) => {
+        finish(event.data.result)
+      }
+      worker.onerror = (event) => {
+        event.preventDefault()
+        finish({ status: 'error', error: `Transform worker crashed: ${event.message || 'possibly out of memory'}` })
+      }
+      worker.onmessageerror = () => {
+        finish({ status: 'error', error: 'Transform result could not be transferred' })
+      }
+      worker.postMessage({ request: toPlainRequest(request), maxResultNotes })
+    } catch (err: any) {
+      finish({ status: 'error', error: err?.message ?? 'Could not start transform worker' })
+    }
+  })
+}
@@ -0,0 +1,19 @@
+import { executeTransform, type TransformRunRequest } from './transformRunner'
+
+// Worker entry for transform execution. Network and script-loading globals are
+// removed before any transform code runs; workers have no DOM or storage access.
+
+const scope = self as any
+for (const name of ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches']) {
+  try {
+    Object.defineProperty(scope, name, { value: undefined, configurable: false, writable: false })
+  } catch {
+    // Some globals are non-configurable in some browsers; leave them
+  }
+}
+
+// Each worker runs a single transform
+scope.onmessage = (event: MessageEvent<{ request: TransformRunRequest, maxResultNotes: number }>) => {
+  const { request, maxResultNotes } = event.data
+  scope.postMessage({ result: executeTransform(request, maxResultNotes) })
+}
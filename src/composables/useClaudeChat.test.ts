@@ -0,0 +1,211 @@
+import { describe, expect, it, vi } from 'vitest'
+import type Anthropic from '@anthropic-ai/sdk'
+import type { NoteDataInput } from '../components/pianoRoll/pianoRollState'
+import { createClaudeChat } from './useClaudeChat'
+import { createMockTransport, type ChatRequest, type MockScriptEntry } from './chatTransport'
+import { CommandStack } from '../components/pianoRoll/commandStack'
+
+const grid = {
+  maxLength: 16,
+  timeSignature: 4,
+  timeSignatureDenominator: 4,
+  bpm: 120,
+  subdivision: 4,
+  tempoChanges: [],
+  meterChanges: []
+}
+
+const note = (id: string, pitch: number, position: number, trackId = 'track-1'): NoteDataInput =>
+  ({ id, trackId, pitch, position, duration: 1, velocity: 100 })
+
+// A roll the chat reads and writes, with a mock model scripted per test
+function setup(script: MockScriptEntry[], options: { review?: boolean } = {}) {
+  let notes: NoteDataInput[] = [note('a', 60, 0), note('b', 64, 1), note('c', 67, 2, 'track-2')]
+  const transport = createMockTransport(script)
+  const setSelection = vi.fn((ids: string[]) => {
+    notes = notes.map(n => ({ ...n, selected: ids.includes(n.id!) }))
+    return ids
+  })
+  const setTiming = vi.fn((patch: any) => patch.bpm > 300
+    ? { error: 'bpm must be between 20 and 300' }
+    : { timing: { ...grid, ...patch } })
+  const proposeNotes = vi.fn()
+
+  const chat = createClaudeChat({
+    getNotes: () => notes.map(n => ({ ...n })),
+    setNotes: (next) => { notes = next.map(n => ({ ...n })) },
+    getGrid: () => grid,
+    getTracks: () => [
+      { id: 'track-1', name: 'Lead', channel: 0, muted: false, solo: false, instrument: 'synth' },
+      { id: 'track-2', name: 'Bass', channel: 1, muted: false, solo: false, instrument: 'bass' }
+    ],
+    setSelection,
+    setTiming,
+    reviewChanges: () => options.review === true,
+    proposeNotes,
+    transport
+  })
+
+  return { chat, transport, setSelection, setTiming, proposeNotes, notes: () => notes }
+}
+
+// The tool results sent back in a request, parsed
+function toolResults(request: ChatRequest): any[] {
+  const last = request.messages[request.messages.length - 1]!
+  return (last.content as Anthropic.ToolResultBlockParam[]).map(block => JSON.parse(block.content as string))
+}
+
+const tool = (name: string, input: Record<string, any>) => [{ type: 'tool_use' as const, name, input }]
+const done = [{ type: 'text' as const, text: 'Done.' }]
+
+describe('createClaudeChat', () => {
+  it('adds, updates and deletes notes through midi_notes', async () => {
+    const { chat, transport, notes } = setup([
+      tool('midi_notes', { action: 'add', notes: [{ id: 'd', pitch: 72, position: 3, duration: 1 }] }),
+      tool('midi_notes', { action: 'update', updates: [{ id: 'a', pitch: 62 }, { id: 'missing', pitch: 1 }] }),
+      tool('midi_notes', { action: 'delete', filter: { minPitch: 60, maxPitch: 64 }, trackId: 'track-1' }),
+      done
+    ])
+
+    await chat.send('Edit the lead')
+
+    expect(notes().map(n => [n.id, n.pitch])).toEqual([['c', 67], ['d', 72]])
+    const [added, updated, deleted] = transport.requests.slice(1).map(request => toolResults(request)[0])
+    expect(added).toMatchObject({ status: 'ok', count: 1, ids: ['d'] })
+    expect(updated).toMatchObject({ status: 'ok', count: 1, notFound: ['missing'] })
+    expect(deleted).toMatchObject({ status: 'ok', count: 2, ids: ['a', 'b'] })
+    expect(chat.messages.value[1]).toMatchObject({ text: 'Done.', streaming: false })
+  })
+
+  it('refuses to delete with an empty filter', async () => {
+    const { chat, transport, notes } = setup([tool('midi_notes', { action: 'delete', filter: {} }), done])
+
+    await chat.send('Clear it')
+
+    expect(notes()).toHaveLength(3)
+    expect(toolResults(transport.requests[1]!)[0].error).toMatch(/filter needs at least one/)
+    expect(chat.messages.value[1]!.toolCalls![0]!.status).toBe('error')
+  })
+
+  it('selects notes by filter', async () => {
+    const { chat, setSelection } = setup([tool('select_notes', { mode: 'replace', filter: { startPosition: 1 } }), done])
+
+    await chat.send('Select from beat two')
+
+    expect(setSelection).toHaveBeenCalledWith(['b', 'c'])
+  })
+
+  it('answers unknown tools with an error and carries on', async () => {
+    const { chat, transport } = setup([tool('no_such_tool', {}), done])
+
+    await chat.send('Hello')
+
+    const messages = transport.requests[1]!.messages
+    const results = messages[messages.length - 1]!.content as Anthropic.ToolResultBlockParam[]
+    expect(results[0]).toMatchObject({ is_error: true })
+    expect(toolResults(transport.requests[1]!)[0].error).toBe('Unknown tool "no_such_tool"')
+    expect(chat.messages.value[1]).toMatchObject({ text: 'Done.' })
+  })
+
+  it('folds turns past the history budget into a summary', async () => {
+    const { chat, transport } = setup([done, done])
+
+    await chat.send(`Long request ${'x'.repeat(130000)}`)
+    await chat.send('Short request')
+
+    const messages = transport.requests[1]!.messages
+    expect(messages).toHaveLength(1)
+    const [summary, text] = messages[0]!.content as Anthropic.TextBlockParam[]
+    expect(summary!.text).toMatch(/^Summary of earlier conversation/)
+    expect(summary!.text).toContain('User: Long request')
+    expect(text!.text).toBe('Short request')
+  })
+
+  it('rolls back note edits when cancelled', async () => {
+    let chat: ReturnType<typeof setup>['chat']
+    const context = setup([
+      tool('midi_notes', { action: 'delete', ids: ['a', 'b'] }),
+      () => {
+        chat.cancel()
+        return done
+      }
+    ])
+    chat = context.chat
+
+    await chat.send('Delete two notes')
+
+    expect(context.notes().map(n => n.id)).toEqual(['a', 'b', 'c'])
+    expect(chat.messages.value[1]).toMatchObject({ cancelled: true, streaming: false })
+    expect(chat.isWaiting.value).toBe(false)
+  })
+
+  it('undoes only its own edits when cancelled, even with the history full', async () => {
+    type Diff = { before: NoteDataInput[], after: NoteDataInput[] }
+    let notes: NoteDataInput[] = [note('a', 60, 0), note('b', 64, 1)]
+    const stack = new CommandStack<NoteDataInput[], Diff>({
+      capture: () => notes.map(n => ({ ...n })),
+      diff: (before, after) => JSON.stringify(before) === JSON.stringify(after) ? null : { before, after },
+      apply: (diff, direction) => { notes = direction === 'undo' ? diff.before : diff.after },
+      merge: (previous, next) => ({ before: previous.before, after: next.after })
+    }, undefined, { maxEntries: 3 })
+    const setNotes = (next: NoteDataInput[], label = 'Set Notes') =>
+      stack.executeCommand(label, () => { notes = next.map(n => ({ ...n })) })
+    for (let i = 0; i < 3; i++) setNotes(notes.map(n => ({ ...n, velocity: 90 + i })))
+
+    let chat: ReturnType<typeof createClaudeChat>
+    const transport = createMockTransport([
+      tool('midi_notes', { action: 'delete', ids: ['a'] }),
+      () => {
+        // The user edits another note while the reply streams
+        setNotes(notes.map(n => n.id === 'b' ? { ...n, pitch: 65 } : n))
+        chat.cancel()
+        return done
+      }
+    ])
+    chat = createClaudeChat({ getNotes: () => notes.map(n => ({ ...n })), setNotes, getGrid: () => grid, transport })
+
+    await chat.send('Delete the first note')
+
+    expect(notes.map(n => [n.id, n.pitch, n.velocity])).toEqual([['a', 60, 92], ['b', 65, 92]])
+    expect(stack.getEntries()).toEqual(['Claude: midi_notes delete (1)', 'Set Notes', 'Claude: cancelled request'])
+  })
+
+  it('stages edits in review mode and proposes them once finished', async () => {
+    const { chat, transport, notes, proposeNotes, setTiming } = setup([
+      tool('midi_notes', { action: 'add', notes: [{ id: 'd', pitch: 72, position: 3, duration: 1 }] }),
+      tool('midi_notes', { action: 'read' }),
+      tool('song_timing', { action: 'update', bpm: 90 }),
+      done
+    ], { review: true })
+
+    await chat.send('Add a note')
+
+    expect(notes()).toHaveLength(3)
+    expect(toolResults(transport.requests[2]!)[0].notes.map((n: NoteDataInput) => n.id)).toEqual(['a', 'b', 'c', 'd'])
+    expect(toolResults(transport.requests[3]!)[0].error).toMatch(/review/)
+    expect(setTiming).not.toHaveBeenCalled()
+    expect(proposeNotes).toHaveBeenCalledTimes(1)
+    expect(proposeNotes.mock.calls[0]![0].map((n: NoteDataInput) => n.id)).toEqual(['a', 'b', 'c', 'd'])
+    expect(proposeNotes.mock.calls[0]![1]).toBe('Claude: midi_notes add (1)')
+    expect(chat.messages.value[1]).toMatchObject({ proposed: true })
+  })
+
+  it('reads and changes the timing through song_timing', async () => {
+    const { chat, transport, setTiming } = setup([
+      tool('song_timing', { action: 'read' }),
+      tool('song_timing', { action: 'update', bpm: 90, meterChanges: [{ position: 8, timeSignature: 3, timeSignatureDenominator: 4 }] }),
+      tool('song_timing', { action: 'update', bpm: 400 }),
+      tool('song_timing', { action: 'update' }),
+      done
+    ])
+
+    await chat.send('Slow down')
+
+    const [read, updated, rejected, empty] = transport.requests.slice(1).map(request => toolResults(request)[0])
+    expect(read.timing).toMatchObject({ bpm: 120, maxLength: 16 })
+    expect(setTiming).toHaveBeenCalledWith({ bpm: 90, meterChanges: [{ position: 8, timeSignature: 3, timeSignatureDenominator: 4 }] })
+    expect(updated).toMatchObject({ status: 'ok', timing: { bpm: 90 }, noteCount: 3 })
+    expect(rejected).toMatchObject({ error: 'bpm must be between 20 and 300', timing: { bpm: 120 } })
+    expect(empty.error).toMatch(/at least one/)
+  })
+})
@@ -1,12 +1,16 @@
 import { ref } from 'vue'
 import Anthropic from '@anthropic-ai/sdk'
 import type { NoteDataInput } from '../components/pianoRoll/pianoRollState'
-import type { TransformRegistry } from './useTransformRegistry'
+import { getBars, type MeterChange, type TempoChange } from '../components/pianoRoll/pianoRollTiming'
+import type { NotesIO, TransformRegistry } from './useTransformRegistry'
+import { createAnthropicTransport, type ChatTransport } from './chatTransport'
 
 export interface ToolCall {
+  id?: string
   name: string
   displayName?: string
   input: Record<string, any>
+  status?: 'running' | 'done' | 'error'
 }
 
 export interface ChatMessage {
@@ -14,23 +18,56 @@ export interface ChatMessage {
   text: string
   timestamp: number
   toolCalls?: ToolCall[]
+  streaming?: boolean  // still receiving text/tool calls
+  cancelled?: boolean  // stopped by the user; its note edits were rolled back
+  proposed?: boolean   // its note edits were handed over for review instead of applied
 }
 
 interface GridInfo {
   maxLength: number
   timeSignature: number
+  timeSignatureDenominator: number
+  bpm: number
   subdivision: number
+  tempoChanges: TempoChange[]
+  meterChanges: MeterChange[]
+}
+
+// Tempo, meter, length and their changes; the fields song_timing can change
+type TimingInfo = Omit<GridInfo, 'subdivision'>
+
+interface TrackInfo {
+  id: string
+  name: string
+  channel: number
+  muted: boolean
+  solo: boolean
+  instrument: string
 }
 
 interface ClaudeChatConfig {
   getNotes: () => NoteDataInput[]
-  setNotes: (notes: NoteDataInput[]) => void
+  setNotes: (notes: NoteDataInput[], label?: string) => void
   getGrid: () => GridInfo
+  getTracks?: () => TrackInfo[]
+  setSelection?: (noteIds: string[]) => string[]
+  // Validates and applies as one undoable step; returns the new timing or why it was rejected
+  setTiming?: (patch: Partial<TimingInfo>) => { timing?: TimingInfo, error?: string }
   registry?: TransformRegistry
+  // While reviewChanges() is true, a request edits a copy of the notes and the
+  // result is passed to proposeNotes once it finishes instead of being written
+  reviewChanges?: () => boolean
+  proposeNotes?: (notes: NoteDataInput[], label: string) => void
+  // Defaults to the Anthropic Messages API with the key passed to send()
+  transport?: ChatTransport
 }
 
 const MAX_NOTES = 512
 const MAX_TOOL_ITERATIONS = 10
+// Rough budget for replayed history; older turns are folded into a summary past this
+const HISTORY_TOKEN_BUDGET = 30000
+const SUMMARY_SNIPPET_LENGTH = 200
+const MAX_SUMMARY_LINES = 40
 
 const MODEL_NAME = 'claude-sonnet-4-5'
 
@@ -39,8 +76,8 @@ function validateClampNotes(inputNotes: any[], grid: GridInfo): NoteDataInput[]
   
   return notes.map((n, i) => {
     const pitch = Math.max(0, Math.min(127, Math.round(n.pitch ?? 60)))
-    const position = Math.max(0, n.position ?? 0)
     const minDuration = 1 / grid.subdivision
+    const position = Math.min(Math.max(0, n.position ?? 0), Math.max(0, grid.maxLength - minDuration))
     const duration = Math.max(minDuration, n.duration ?? 0.25)
     const velocity = Math.max(0, Math.min(127, n.velocity ?? 100))
     
@@ -48,6 +85,7 @@ function validateClampNotes(inputNotes: any[], grid: GridInfo): NoteDataInput[]
     
     return {
       id: n.id || `note-${Date.now()}-${i}`,
+      trackId: typeof n.trackId === 'string' ? n.trackId : undefined,
       pitch,
       position,
       duration: Math.min(duration, maxDuration),
@@ -56,31 +94,161 @@ function validateClampNotes(inputNotes: any[], grid: GridInfo): NoteDataInput[]
   })
 }
 
+// Position/pitch bounds shared by midi_notes delete and select_notes
+interface NoteFilter {
+  startPosition?: number
+  endPosition?: number
+  minPitch?: number
+  maxPitch?: number
+}
+
+// Notes starting in [startPosition, endPosition) with pitch in [minPitch, maxPitch]
+function matchesNoteFilter(note: NoteDataInput, filter: NoteFilter): boolean {
+  return (filter.startPosition === undefined || note.position >= filter.startPosition) &&
+    (filter.endPosition === undefined || note.position < filter.endPosition) &&
+    (filter.minPitch === undefined || note.pitch >= filter.minPitch) &&
+    (filter.maxPitch === undefined || note.pitch <= filter.maxPitch)
+}
+
+// A filter without bounds matches every note
+function hasNoteFilterBounds(filter: NoteFilter): boolean {
+  return filter.startPosition !== undefined || filter.endPosition !== undefined ||
+    filter.minPitch !== undefined || filter.maxPitch !== undefined
+}
+
+// Same note content; selection is not part of an edit
+function sameNote(a: NoteDataInput | undefined, b: NoteDataInput | undefined): boolean {
+  if (!a || !b) return a === b
+  return a.trackId === b.trackId && a.pitch === b.pitch && a.position === b.position &&
+    a.duration === b.duration && (a.velocity ?? 100) === (b.velocity ?? 100)
+}
+
+const noteFilterSchema = {
+  type: "object",
+  properties: {
+    startPosition: { type: "number", description: "Notes starting at or after this position (quarter notes)" },
+    endPosition: { type: "number", description: "Notes starting before this position (quarter notes)" },
+    minPitch: { type: "number", description: "Lowest pitch (inclusive)" },
+    maxPitch: { type: "number", description: "Highest pitch (inclusive)" }
+  }
+}
+
+// One user request plus every assistant/tool_result message it produced
+type ConversationTurn = Anthropic.MessageParam[]
+
+// Cheap chars/4 heuristic - good enough to decide when to trim
+function estimateTokens(message: Anthropic.MessageParam): number {
+  const text = typeof message.content === 'string' ? message.content : JSON.stringify(message.content)
+  return Math.ceil(text.length / 4)
+}
+
+function snippet(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  return flat.length > SUMMARY_SNIPPET_LENGTH ? `${flat.slice(0, SUMMARY_SNIPPET_LENGTH)}…` : flat
+}
+
+function summarizeTurn(turn: ConversationTurn): string[] {
+  const lines: string[] = []
+
+  for (const message of turn) {
+    if (typeof message.content === 'string') {
+      lines.push(`${message.role === 'user' ? 'User' : 'Assistant'}: ${snippet(message.content)}`)
+      continue
+    }
+
+    const texts: string[] = []
+    const tools: string[] = []
+    for (const block of message.content) {
+      if (block.type === 'text') texts.push(block.text)
+      if (block.type === 'tool_use') tools.push(block.name)
+    }
+
+    if (message.role === 'assistant' && (texts.length > 0 || tools.length > 0)) {
+      const toolNote = tools.length > 0 ? ` [tools: ${tools.join(', ')}]` : ''
+      lines.push(`Assistant: ${snippet(texts.join(' '))}${toolNote}`)
+    } else if (message.role === 'user' && texts.length > 0) {
+      lines.push(`User: ${snippet(texts.join(' '))}`)
+    }
+  }
+
+  return lines
+}
+
+// Index of the oldest turn that still fits in the token budget. The latest
+// turn is always kept, even if it alone exceeds the budget.
+function firstTurnInBudget(turns: ConversationTurn[]): number {
+  let budget = HISTORY_TOKEN_BUDGET
+  let firstKept = turns.length
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const cost = turns[i]!.reduce((sum, message) => sum + estimateTokens(message), 0)
+    if (cost > budget && i < turns.length - 1) break
+    budget -= cost
+    firstKept = i
+  }
+
+  return firstKept
+}
+
+// Flatten turns into API messages, prepending the summary of trimmed turns to
+// the first user message. Turns are never split, so every tool_use keeps its
+// matching tool_result.
+function buildHistory(turns: ConversationTurn[], summaryLines: string[]): Anthropic.MessageParam[] {
+  const messages = turns.flat()
+  const first = messages[0]
+  if (summaryLines.length === 0 || !first) return messages
+
+  const summaryBlock: Anthropic.TextBlockParam = {
+    type: 'text',
+    text: `Summary of earlier conversation (older turns were trimmed):\n${summaryLines.join('\n')}`
+  }
+  const firstContent: Anthropic.ContentBlockParam[] = typeof first.content === 'string'
+    ? [{ type: 'text', text: first.content }]
+    : first.content
+
+  return [{ role: 'user', content: [summaryBlock, ...firstContent] }, ...messages.slice(1)]
+}
+
 export function createClaudeChat(config: ClaudeChatConfig) {
-  const { getNotes, setNotes, getGrid, registry } = config
+  const { getNotes, setNotes, getGrid, getTracks, setSelection, setTiming, registry, transport, reviewChanges, proposeNotes } = config
+  
+  // Where the tools read and write notes: the roll, or a staging copy in review mode
+  let io: NotesIO = { getNotes, setNotes }
+  let writeTiming = setTiming
+  const isReviewing = () => !!(reviewChanges?.() && proposeNotes)
   
   const messages = ref<ChatMessage[]>([])
   const isWaiting = ref(false)
   const error = ref<string | null>(null)
   
+  // API-level transcript, replayed on every request
+  let turns: ConversationTurn[] = []
+  let summaryLines: string[] = []
+  let abortController: AbortController | null = null
+  
   const midiNotesTool: Anthropic.Tool = {
     name: "midi_notes",
-    description: "Read or write the piano roll MIDI notes. Use action='read' to fetch all notes. Use action='write' with a notes array to replace the current notes.",
+    description: "Read or edit the piano roll MIDI notes. Use action='read' to fetch all notes (with their ids). Prefer the incremental actions for small edits: 'add' appends the given notes, 'update' patches existing notes by id (only the fields you pass change), and 'delete' removes notes by id or by a position/pitch range filter. Use action='write' only to replace every note at once. Pass trackId to scope any action to a single track; other tracks are left untouched.",
     input_schema: {
       type: "object",
       properties: {
         action: {
           type: "string",
-          enum: ["read", "write"],
-          description: "Whether to read current notes or write new notes"
+          enum: ["read", "write", "add", "update", "delete"],
+          description: "read = fetch notes, write = replace all notes, add = append notes, update = patch notes by id, delete = remove notes by id or filter"
+        },
+        trackId: {
+          type: "string",
+          description: "Optional track id. When set, 'read' returns only this track's notes, 'write' replaces only this track's notes, 'add' puts new notes on this track, and 'update'/'delete' only touch notes on this track"
         },
         notes: {
           type: "array",
-          description: "Array of MIDI notes to write (only for 'write' action)",
+          description: "Array of MIDI notes (only for 'write' and 'add' actions)",
           items: {
             type: "object",
             properties: {
               id: { type: "string", description: "Optional unique identifier" },
+              trackId: { type: "string", description: "Optional track id for this note (defaults to the tool-level trackId, then the active track)" },
               pitch: { 
                 type: "number", 
                 minimum: 0, 
@@ -106,15 +274,167 @@ export function createClaudeChat(config: ClaudeChatConfig) {
             },
             required: ["pitch", "position", "duration"]
           }
+        },
+        updates: {
+          type: "array",
+          description: "Partial note changes keyed by id (only for 'update' action). Omitted fields keep their current value",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string", description: "Id of the note to change (from a previous read)" },
+              trackId: { type: "string", description: "Move the note to this track" },
+              pitch: { type: "number", minimum: 0, maximum: 127 },
+              position: { type: "number", minimum: 0 },
+              duration: { type: "number", minimum: 0 },
+              velocity: { type: "number", minimum: 0, maximum: 127 }
+            },
+            required: ["id"]
+          }
+        },
+        ids: {
+          type: "array",
+          description: "Ids of the notes to remove (only for 'delete' action)",
+          items: { type: "string" }
+        },
+        filter: {
+          ...noteFilterSchema,
+          description: "Remove every note matching all given bounds (only for 'delete' action); give at least one bound. Can be combined with ids"
+        },
+        selectedOnly: {
+          type: "boolean",
+          description: "Only for 'read': return just the notes the user currently has selected"
+        }
+      },
+      required: ["action"]
+    }
+  }
+  
+  const selectNotesTool: Anthropic.Tool = {
+    name: "select_notes",
+    description: "Change which notes are selected in the piano roll, e.g. to highlight notes for the user or before running a transform with selectedOnly. Selection is limited to one track: selecting notes on another track switches the active track.",
+    input_schema: {
+      type: "object",
+      properties: {
+        mode: {
+          type: "string",
+          enum: ["replace", "add", "remove", "clear"],
+          description: "replace = select exactly the matching notes, add/remove = extend or shrink the current selection, clear = deselect everything"
+        },
+        ids: {
+          type: "array",
+          description: "Ids of the notes to select (from a midi_notes read)",
+          items: { type: "string" }
+        },
+        trackId: {
+          type: "string",
+          description: "Optional track id; only notes on this track match"
+        },
+        filter: {
+          ...noteFilterSchema,
+          description: "Match every note within all given bounds. Can be combined with ids"
+        }
+      },
+      required: ["mode"]
+    }
+  }
+  
+  const songTimingTool: Anthropic.Tool = {
+    name: "song_timing",
+    description: "Read or change the song's tempo, time signature and length, including tempo and time signature changes later in the song. Changes are one undoable step; shortening the song trims or removes notes past the new end. Note positions stay in quarter notes, so changing the meter or tempo does not move notes.",
+    input_schema: {
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["read", "update"],
+          description: "read = return the current timing, update = change the given fields"
+        },
+        bpm: {
+          type: "number",
+          description: "Tempo in quarter notes per minute (20-300)"
+        },
+        timeSignature: {
+          type: "number",
+          description: "Beats per bar, the time signature numerator (1-32)"
+        },
+        timeSignatureDenominator: {
+          type: "number",
+          enum: [1, 2, 4, 8, 16, 32],
+          description: "Beat unit, the time signature denominator (4 = quarter note, 8 = eighth note)"
+        },
+        maxLength: {
+          type: "number",
+          description: "Song length in quarter notes; rounded up to a whole bar"
+        },
+        tempoChanges: {
+          type: "array",
+          description: "Replaces all tempo changes after the start. Each applies from its position until the next one",
+          items: {
+            type: "object",
+            properties: {
+              position: { type: "number", description: "Quarter notes from the start" },
+              bpm: { type: "number", description: "New tempo (20-300)" }
+            },
+            required: ["position", "bpm"]
+          }
+        },
+        meterChanges: {
+          type: "array",
+          description: "Replaces all time signature changes after the start. Each starts a new bar at its position, so place them on bar lines",
+          items: {
+            type: "object",
+            properties: {
+              position: { type: "number", description: "Quarter notes from the start" },
+              timeSignature: { type: "number", description: "Beats per bar (1-32)" },
+              timeSignatureDenominator: { type: "number", enum: [1, 2, 4, 8, 16, 32], description: "Beat unit" }
+            },
+            required: ["position", "timeSignature", "timeSignatureDenominator"]
+          }
         }
       },
       required: ["action"]
     }
   }
   
+  const createPipelineTool: Anthropic.Tool = {
+    name: "create_pipeline",
+    description: "Save a named pipeline: a sequence of existing transform tools (builtin_* or transform_slot_*) that runs as one atomic, undoable operation and becomes available as the tool pipeline_<name>. Saving under an existing name replaces it. This does not run the pipeline.",
+    input_schema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Pipeline name: starts with a letter; letters, digits, '_' or '-' only"
+        },
+        description: {
+          type: "string",
+          description: "What the pipeline does, shown to the user and used as the tool description"
+        },
+        steps: {
+          type: "array",
+          description: "Transforms to run in order",
+          items: {
+            type: "object",
+            properties: {
+              transform: { type: "string", description: "Tool name of the transform, e.g. builtin_quantize or transform_slot_2" },
+              args: { type: "object", description: "Parameter values by name. Fixed unless exposed, in which case they are the defaults" },
+              expose: {
+                type: "array",
+                items: { type: "string" },
+                description: "Parameter names the caller of the pipeline may set"
+              }
+            },
+            required: ["transform"]
+          }
+        }
+      },
+      required: ["name", "steps"]
+    }
+  }
+  
   const writeTransformTool: Anthropic.Tool = {
     name: "write_transform_function",
-    description: "Create or overwrite a transform function in a given slot (0-7). Provide complete JavaScript code with a function named 'transform' that takes notes as first parameter, followed by numeric parameters. Include JSDoc comments with one line per parameter.",
+    description: "Create or overwrite a transform function in a given slot (0-7). Provide complete JavaScript code with a function named 'transform' that takes notes as first parameter, followed by typed parameters (number, boolean, string, enum of string literals, or pitch). Include JSDoc comments with one @param line per parameter.",
     input_schema: {
       type: "object",
       properties: {
@@ -135,13 +455,22 @@ export function createClaudeChat(config: ClaudeChatConfig) {
   
   function buildSystemPrompt(): string {
     const grid = getGrid()
+    const barLength = grid.timeSignature * 4 / grid.timeSignatureDenominator
+    const barCount = getBars(grid, grid.maxLength).length
+    const changes = [
+      ...grid.meterChanges.map(change => `${change.timeSignature}/${change.timeSignatureDenominator} from ${change.position}`),
+      ...grid.tempoChanges.map(change => `${change.bpm} BPM from ${change.position}`)
+    ]
     
     let prompt = `You are a music composition assistant for a MIDI piano roll editor.
 
 IMPORTANT RULES:
 - Always use the midi_notes tool to read or write notes - never hallucinate note data
-- Grid constraints: maxLength=${grid.maxLength} quarter notes, timeSignature=${grid.timeSignature}/4, subdivision=1/${grid.subdivision}
-- Time units: 1.0 represents one quarter note across all positions and durations
+- For small edits use midi_notes add/update/delete with note ids from a read instead of rewriting every note
+- Grid constraints: maxLength=${grid.maxLength} quarter notes (${barCount} bars), timeSignature=${grid.timeSignature}/${grid.timeSignatureDenominator}, tempo=${grid.bpm} BPM, subdivision=1/${grid.subdivision}
+- Time units: 1.0 represents one quarter note across all positions and durations; one bar is ${barLength} quarter notes${changes.length > 0 ? ` at the start
+- Timing changes (positions in quarter notes): ${changes.join(', ')}` : ''}${setTiming ? `
+- Use song_timing to read or change the tempo, time signature, song length or their changes over time` : ''}
 - When writing notes:
   - Pitch must be 0-127 (60=middle C, 62=D, 64=E, 65=F, 67=G, 69=A, 71=B, 72=high C)
   - Position must be >= 0 and position+duration should stay within maxLength
@@ -151,6 +480,32 @@ IMPORTANT RULES:
 - Consider musical context when suggesting edits (key, rhythm, harmony)
 - When creating chords, use simultaneous notes at the same position`
 
+    const tracks = getTracks?.() ?? []
+    if (tracks.length > 0) {
+      prompt += `
+
+TRACKS:
+Every note belongs to a track. When the user refers to a part (e.g. "the bass"), pass that track's trackId to midi_notes so other tracks are left untouched.
+${tracks.map(t => `- ${t.id}: "${t.name}" (MIDI channel ${t.channel + 1}, ${t.instrument}${t.muted ? ', muted' : ''}${t.solo ? ', solo' : ''})`).join('\n')}`
+    }
+
+    const selectedCount = io.getNotes().filter(n => n.selected).length
+    prompt += `
+
+SELECTION:
+${selectedCount > 0 ? `The user currently has ${selectedCount} note(s) selected.` : 'No notes are currently selected.'}
+- When the user refers to "the selected notes" or "the selection", read them with midi_notes action='read' and selectedOnly=true
+${registry ? `- Pass selectedOnly=true to transform tools to change only the selected notes; everything else is left untouched
+` : ''}${setSelection ? `
+- Use select_notes to change the selection, e.g. to show the user which notes you mean` : ''}`
+
+    if (isReviewing()) {
+      prompt += `
+
+REVIEW MODE:
+Your note edits are collected and shown to the user as one proposal when you finish; they accept or reject it. Reads return your edits so far. Describe what you changed so they know what to check.`
+    }
+
     if (registry) {
       prompt += `
 
@@ -158,7 +513,7 @@ TRANSFORM FUNCTIONS:
 Before modifying notes, determine the best approach:
 - For simple operations (add/remove individual notes, simple pitch/position changes), use midi_notes tool directly
 - For pattern-based operations (transpose all notes, quantize, humanize), check if an existing transform tool matches
-- For complex multi-step operations, consider combining multiple transform tools in sequence
+- For complex multi-step operations, prefer an existing pipeline_* tool; if the user wants a reusable sequence, save one with create_pipeline (it runs as a single undo step) instead of calling transform tools one by one
 - Only create new transforms if no existing tool or combination fits the need
 
 Available transform tools:
@@ -177,21 +532,24 @@ Use write_transform_function(code, slotIndex) only when:
 - The operation would be reusable for future requests
 
 Transform code requirements:
-- Must define a function with notes as the first parameter, followed by numeric parameters
+- Must define a function with notes as the first parameter, followed by typed parameters
 - Function can have any name (e.g., transpose, quantize, humanize)
 - First parameter must be 'notes' (the input array)
-- Additional parameters must be numbers that configure the transformation
-- Must include JSDoc with @param tags for each parameter
+- Must include JSDoc with @param tags for each parameter; the tag type sets the tool schema:
+  {number} (a range like "-12 to 12" or "min 0"/"max 4" in the description is enforced), {boolean}, {string},
+  {'up'|'down'} (one of the listed strings), {pitch} (the user may say "C#4"; the function receives the MIDI number, C4 = 60)
+- Write [name=default] in the tag (or a default in the signature) for optional parameters
 - Should return a new array, not modify input array
 
 Example transform structure:
 /**
  * Brief description of what this does.
  * @param {Note[]} notes - Input notes array
- * @param {number} paramName - Description and recommended range (e.g., 0-127, -12 to +12)
- * * ... - more parameters, as long as they are all numbers (and you need a description line for each)
+ * @param {number} amount - Description and range (e.g., -12 to 12)
+ * @param {'up'|'down'} [direction='up'] - Optional choice with a default
+ * @param {pitch} root - Pitch name like C4, passed as a MIDI number
  */
-function myTransform(notes, paramName) {
+function myTransform(notes, amount, direction, root) {
   const newNotes = notes.map(n => ({...n}));
   // transform newNotes here
   return newNotes;
@@ -203,18 +561,107 @@ function myTransform(notes, paramName) {
   
   async function executeMidiNotesTool(input: any) {
     const grid = getGrid()
+    const tracks = getTracks?.() ?? []
+    const trackId: string | undefined = input.trackId
+    
+    if (trackId !== undefined && tracks.length > 0 && !tracks.some(t => t.id === trackId)) {
+      return { error: `Unknown trackId "${trackId}"`, tracks }
+    }
     
     if (input.action === 'read') {
+      const notes = io.getNotes()
+        .filter(n => !trackId || n.trackId === trackId)
+        .filter(n => input.selectedOnly !== true || n.selected)
       return {
-        notes: getNotes(),
+        notes,
+        selectedOnly: input.selectedOnly === true || undefined,
+        tracks,
         grid
       }
     } else if (input.action === 'write') {
       const normalized = validateClampNotes(input.notes || [], grid)
-      setNotes(normalized)
+      if (trackId) {
+        // Replace only this track; keep everything else as-is
+        const others = io.getNotes().filter(n => n.trackId !== trackId)
+        io.setNotes([...others, ...normalized.map(n => ({ ...n, trackId }))], `Claude: midi_notes write (${trackId})`)
+      } else {
+        io.setNotes(normalized, 'Claude: midi_notes write')
+      }
       return {
         status: 'ok',
         count: normalized.length,
+        trackId,
+        grid
+      }
+    } else if (input.action === 'add') {
+      const current = io.getNotes()
+      const usedIds = new Set(current.map(n => n.id))
+      const added = validateClampNotes(input.notes || [], grid).map((n, i) => ({
+        ...n,
+        // Never let an added note silently overwrite an existing one
+        id: n.id && !usedIds.has(n.id) ? n.id : `note-${Date.now()}-add-${i}`,
+        trackId: n.trackId ?? trackId
+      }))
+      if (current.length + added.length > MAX_NOTES) {
+        return { error: `Adding ${added.length} notes would exceed the ${MAX_NOTES} note limit (currently ${current.length})` }
+      }
+      if (added.length > 0) {
+        io.setNotes([...current, ...added], `Claude: midi_notes add (${added.length})`)
+      }
+      return {
+        status: 'ok',
+        count: added.length,
+        ids: added.map(n => n.id),
+        grid
+      }
+    } else if (input.action === 'update') {
+      const updates: any[] = Array.isArray(input.updates) ? input.updates : []
+      const byId = new Map(updates.filter(u => typeof u?.id === 'string').map(u => [u.id as string, u]))
+      const updatedIds: string[] = []
+      
+      const notes = io.getNotes().map(note => {
+        const patch = byId.get(note.id!)
+        if (!patch || (trackId && note.trackId !== trackId)) return note
+        
+        // Clamp the merged note so partial patches obey the same rules as writes
+        const [clamped] = validateClampNotes([{ ...note, ...patch, id: note.id }], grid)
+        updatedIds.push(note.id!)
+        return { ...note, ...clamped!, trackId: clamped!.trackId ?? note.trackId }
+      })
+      
+      if (updatedIds.length > 0) {
+        io.setNotes(notes, `Claude: midi_notes update (${updatedIds.length})`)
+      }
+      return {
+        status: 'ok',
+        count: updatedIds.length,
+        notFound: [...byId.keys()].filter(id => !updatedIds.includes(id)),
+        grid
+      }
+    } else if (input.action === 'delete') {
+      const ids = new Set<string>(Array.isArray(input.ids) ? input.ids : [])
+      const filter: NoteFilter | undefined = input.filter && typeof input.filter === 'object' ? input.filter : undefined
+      if (ids.size === 0 && !filter) {
+        return { error: "'delete' needs ids and/or a filter" }
+      }
+      if (filter && !hasNoteFilterBounds(filter)) {
+        return { error: "'delete' filter needs at least one of startPosition, endPosition, minPitch or maxPitch" }
+      }
+      
+      const current = io.getNotes()
+      const removed = current.filter(note =>
+        (!trackId || note.trackId === trackId) &&
+        (ids.has(note.id!) || (filter !== undefined && matchesNoteFilter(note, filter)))
+      )
+      
+      if (removed.length > 0) {
+        const removedIds = new Set(removed.map(n => n.id))
+        io.setNotes(current.filter(n => !removedIds.has(n.id)), `Claude: midi_notes delete (${removed.length})`)
+      }
+      return {
+        status: 'ok',
+        count: removed.length,
+        ids: removed.map(n => n.id),
         grid
       }
     }
@@ -222,8 +669,92 @@ function myTransform(notes, paramName) {
     return { error: 'Invalid action' }
   }
   
-  async function send(userText: string, apiKey: string): Promise<void> {
-    if (!apiKey.trim()) {
+  async function executeSelectNotesTool(input: any) {
+    if (!setSelection) {
+      return { error: 'Selection is not available' }
+    }
+    
+    const notes = io.getNotes()
+    const current = notes.filter(n => n.selected).map(n => n.id!)
+    
+    let selected: string[]
+    if (input.mode === 'clear') {
+      selected = setSelection([])
+    } else {
+      const ids = new Set<string>(Array.isArray(input.ids) ? input.ids : [])
+      const filter: NoteFilter | undefined = input.filter && typeof input.filter === 'object' ? input.filter : undefined
+      if (ids.size === 0 && !filter) {
+        return { error: `'${input.mode}' needs ids and/or a filter` }
+      }
+      
+      const matched = notes
+        .filter(n => !input.trackId || n.trackId === input.trackId)
+        .filter(n => ids.has(n.id!) || (filter !== undefined && matchesNoteFilter(n, filter)))
+        .map(n => n.id!)
+      
+      if (input.mode === 'replace') {
+        selected = setSelection(matched)
+      } else if (input.mode === 'add') {
+        selected = setSelection([...current, ...matched])
+      } else if (input.mode === 'remove') {
+        const removing = new Set(matched)
+        selected = setSelection(current.filter(id => !removing.has(id)))
+      } else {
+        return { error: 'Invalid mode' }
+      }
+    }
+    
+    return {
+      status: 'ok',
+      count: selected.length,
+      ids: selected
+    }
+  }
+  
+  function readTiming(): TimingInfo {
+    const { bpm, timeSignature, timeSignatureDenominator, maxLength, tempoChanges, meterChanges } = getGrid()
+    return { bpm, timeSignature, timeSignatureDenominator, maxLength, tempoChanges, meterChanges }
+  }
+  
+  async function executeSongTimingTool(input: any) {
+    if (input.action === 'read') {
+      return { status: 'ok', timing: readTiming() }
+    }
+    if (input.action !== 'update') {
+      return { error: 'Invalid action' }
+    }
+    if (isReviewing()) {
+      return { error: 'Timing cannot be changed while edits are collected for review; describe the change to the user instead' }
+    }
+    
+    const patch: Partial<TimingInfo> = {}
+    const fields = ['bpm', 'timeSignature', 'timeSignatureDenominator', 'maxLength'] as const
+    fields.forEach(field => {
+      if (typeof input[field] === 'number') patch[field] = input[field]
+    })
+    if (Array.isArray(input.tempoChanges)) {
+      patch.tempoChanges = input.tempoChanges.map((c: any) => ({ position: Number(c?.position), bpm: Number(c?.bpm) }))
+    }
+    if (Array.isArray(input.meterChanges)) {
+      patch.meterChanges = input.meterChanges.map((c: any) => ({
+        position: Number(c?.position),
+        timeSignature: Number(c?.timeSignature),
+        timeSignatureDenominator: Number(c?.timeSignatureDenominator)
+      }))
+    }
+    if (Object.keys(patch).length === 0) {
+      return { error: 'Give at least one of bpm, timeSignature, timeSignatureDenominator, maxLength, tempoChanges or meterChanges' }
+    }
+    
+    const result = writeTiming!(patch)
+    if (result.error) {
+      return { error: result.error, timing: readTiming() }
+    }
+    return { status: 'ok', timing: result.timing, noteCount: getNotes().length }
+  }
+  
+  async function send(userText: string, apiKey = ''): Promise<void> {
+    if (!transport && !apiKey.trim()) {
       error.value = 'Please provide an API key'
       return
     }
@@ -238,14 +769,30 @@ function myTransform(notes, paramName) {
       timestamp: Date.now()
     })
     
+    // The reply is filled in as the response streams; read it back through
+    // messages.value so edits go through the reactive proxy
+    messages.value.push({
+      role: 'assistant',
+      text: '',
+      timestamp: Date.now(),
+      toolCalls: [],
+      streaming: true
+    })
+    const reply = messages.value[messages.value.length - 1]!
+    const toolCalls = reply.toolCalls!
+    
     isWaiting.value = true
     error.value = null
     
+    abortController = new AbortController()
+    const { signal } = abortController
+    const staging = isReviewing() ? createStaging() : null
+    const edits = staging ? null : createEditTracker()
+    io = staging?.io ?? edits!.io
+    writeTiming = edits?.setTiming ?? setTiming
+    
     try {
-      const client = new Anthropic({
-        apiKey,
-        dangerouslyAllowBrowser: true
-      })
+      const chatTransport = transport ?? createAnthropicTransport(apiKey)
       
       // Build tools dynamically
       const tools: Anthropic.Tool[] = [midiNotesTool]
@@ -253,10 +800,20 @@ function myTransform(notes, paramName) {
       const handlers = new Map<string, (input: any) => Promise<any>>()
       handlers.set('midi_notes', executeMidiNotesTool)
       
+      if (setSelection) {
+        tools.push(selectNotesTool)
+        handlers.set('select_notes', executeSelectNotesTool)
+      }
+      
+      if (setTiming) {
+        tools.push(songTimingTool)
+        handlers.set('song_timing', executeSongTimingTool)
+      }
+      
       if (registry) {
-        tools.push(writeTransformTool)
+        tools.push(writeTransformTool, createPipelineTool)
         handlers.set('write_transform_function', async (input: any) => {
-          const result = registry.writeTransformFunction(input.slotIndex, input.code)
+          const result = await registry.writeTransformFunction(input.slotIndex, input.code)
           return {
             status: result.valid ? 'validated' : 'invalid',
             errors: result.errors,
@@ -264,76 +821,109 @@ function myTransform(notes, paramName) {
             params: result.params
           }
         })
+        handlers.set('create_pipeline', async (input: any) => {
+          const result = registry.savePipeline(input)
+          if (result.status === 'error') return result
+          return {
+            status: 'saved',
+            toolName: `pipeline_${result.pipeline!.name}`,
+            params: registry.getExposedPipelineParams(result.pipeline!).map(e => e.param)
+          }
+        })
         
         // Add transform tools
         const transformTools = registry.getToolDefs()
         tools.push(...transformTools)
         
         // Add transform handlers
-        const transformHandlers = registry.getToolHandlers()
+        const transformHandlers = registry.getToolHandlers(io)
         transformHandlers.forEach((handler, name) => {
           handlers.set(name, handler)
         })
       }
       
-      const conversationMessages: Anthropic.MessageParam[] = [
-        { role: 'user', content: userText }
-      ]
+      const turn: ConversationTurn = [{ role: 'user', content: userText }]
+      const conversationTurns = trimTurns([...turns, turn])
+      turns = conversationTurns.slice(0, -1)
+      const conversationMessages = buildHistory(conversationTurns, summaryLines)
+      const historyLength = conversationMessages.length - 1
       
-      let response = await client.messages.create({
-        model: MODEL_NAME,
-        system: buildSystemPrompt(),
-        tools,
-        max_tokens: 1000,
-        messages: conversationMessages
-      })
+      // Stream one model response, appending text and announcing tool calls as they start
+      const streamResponse = (): Promise<Anthropic.ContentBlock[]> => {
+        let separated = reply.text === ''
+        return chatTransport.send({
+          model: MODEL_NAME,
+          system: buildSystemPrompt(),
+          tools,
+          maxTokens: 1000,
+          messages: conversationMessages
+        }, {
+          onText: (delta) => {
+            if (!separated) {
+              reply.text += '\n\n'
+              separated = true
+            }
+            reply.text += delta
+          },
+          onToolUseStart: ({ id, name }) => {
+            toolCalls.push({
+              id,
+              name,
+              displayName: getToolDisplayName(name),
+              input: {},
+              status: 'running'
+            })
+          }
+        }, signal)
+      }
       
-      const allToolCalls: ToolCall[] = []
+      let response = await streamResponse()
       
       for (let iteration = 0; iteration < MAX_TOOL_ITERATIONS; iteration++) {
-        const toolUses = response.content.filter(
+        const toolUses = response.filter(
           (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
         )
         
         if (toolUses.length === 0) break
         
-        // Track tool calls with display names
-        for (const toolUse of toolUses) {
-          let displayName = toolUse.name
-          
-          // Get function name for transform tools
-          if (toolUse.name.startsWith('transform_slot_') && registry) {
-            const slotIndex = parseInt(toolUse.name.replace('transform_slot_', '')) - 1
-            const slot = registry.slots[slotIndex]
-            if (slot && slot.functionName) {
-              displayName = slot.functionName
-            }
-          }
-          
-          allToolCalls.push({
-            name: toolUse.name,
-            displayName,
-            input: toolUse.input as Record<string, any>
-          })
-        }
-        
         conversationMessages.push({
           role: 'assistant',
-          content: response.content
+          content: response
         })
         
         const toolResults: Anthropic.ToolResultBlockParam[] = []
         
         for (const toolUse of toolUses) {
+          // Transports that don't stream never announced the call
+          let toolCall = toolCalls.find(call => call.id === toolUse.id)
+          if (!toolCall) {
+            toolCalls.push({ id: toolUse.id, name: toolUse.name, displayName: getToolDisplayName(toolUse.name), input: {}, status: 'running' })
+            toolCall = toolCalls[toolCalls.length - 1]!
+          }
+          toolCall.input = toolUse.input as Record<string, any>
+          
           const handler = handlers.get(toolUse.name)
           if (handler) {
             const result = await handler(toolUse.input)
+            toolCall.status = result?.error || result?.status === 'error' || result?.status === 'invalid' ? 'error' : 'done'
             toolResults.push({
               type: 'tool_result',
               tool_use_id: toolUse.id,
               content: JSON.stringify(result)
             })
+          } else {
+            // Every tool_use needs a result or the next request is rejected
+            toolCall.status = 'error'
+            toolResults.push({
+              type: 'tool_result',
+              tool_use_id: toolUse.id,
+              content: JSON.stringify({ error: `Unknown tool "${toolUse.name}"` }),
+              is_error: true
+            })
           }
+          
+          // Don't start further edits once the user has cancelled
+          if (signal.aborted) throw new Anthropic.APIUserAbortError()
         }
         
         conversationMessages.push({
@@ -341,36 +931,182 @@ function myTransform(notes, paramName) {
           content: toolResults
         })
         
-        response = await client.messages.create({
-          model: MODEL_NAME,
-          system: buildSystemPrompt(),
-          tools,
-          max_tokens: 1000,
-          messages: conversationMessages
-        })
+        response = await streamResponse()
       }
       
-      const finalText = response.content
+      const finalText = response
         .filter((block): block is Anthropic.TextBlock => block.type === 'text')
         .map(block => block.text)
         .join('\n')
       
-      messages.value.push({
-        role: 'assistant',
-        text: finalText || 'No response',
-        timestamp: Date.now(),
-        toolCalls: allToolCalls.length > 0 ? allToolCalls : undefined
-      })
+      // Record this turn for replay. If the iteration cap left tool_use blocks
+      // unanswered, keep only the text so the transcript stays valid.
+      turn.push(...conversationMessages.slice(historyLength + 1))
+      turn.push({ role: 'assistant', content: finalText || 'No response' })
+      turns.push(turn)
+      
+      if (!reply.text) {
+        reply.text = finalText || 'No response'
+      }
       
     } catch (err: any) {
-      error.value = err.message || 'Failed to communicate with Claude'
-      console.error('Claude API error:', err)
+      if (signal.aborted) {
+        // Cancelled: undo whatever the tools already changed. The turn is not
+        // recorded, so the model never sees the half-finished exchange.
+        edits?.rollBack()
+        reply.cancelled = true
+      } else {
+        error.value = err.message || 'Failed to communicate with Claude'
+        console.error('Claude API error:', err)
+      }
     } finally {
+      toolCalls.forEach(call => {
+        if (call.status === 'running') call.status = 'error'
+      })
+      // Edits made before a failure are proposed too, as they would have been applied
+      if (staging && staging.writes() > 0 && !signal.aborted) {
+        proposeNotes!(staging.io.getNotes(), staging.label())
+        reply.proposed = true
+      }
+      io = { getNotes, setNotes }
+      writeTiming = setTiming
+      if (toolCalls.length === 0) {
+        reply.toolCalls = undefined
+      }
+      reply.streaming = false
+      
+      // Drop the placeholder if a request failed before anything arrived
+      const replyIndex = messages.value.indexOf(reply)
+      if (replyIndex >= 0 && !reply.text && !reply.toolCalls && !reply.cancelled) {
+        messages.value.splice(replyIndex, 1)
+      }
+      
+      abortController = null
       isWaiting.value = false
     }
   }
   
+  // Abort the running request; its note edits are rolled back
+  function cancel() {
+    abortController?.abort()
+  }
+  
+  // A copy of the notes that a review-mode request edits instead of the roll
+  function createStaging() {
+    let staged = getNotes().map(n => ({ ...n }))
+    const labels: string[] = []
+    const io: NotesIO = {
+      getNotes: () => staged.map(n => ({ ...n })),
+      setNotes: (notes, label) => {
+        staged = notes.map(n => ({ ...n }))
+        labels.push(label ?? 'Claude: edit')
+      }
+    }
+    return {
+      io,
+      writes: () => labels.length,
+      label: () => labels.length === 1 ? labels[0]! : `Claude: ${labels.length} edits`
+    }
+  }
+  
+  // Records what a request changes in the roll, so cancelling it can put back
+  // just those notes and the timing. Anything edited again since (e.g. by the
+  // user while the reply streams) is left as it is. Works from snapshots, so it
+  // does not depend on the undo history, which drops its oldest entries.
+  function createEditTracker() {
+    const original = new Map<string, NoteDataInput | undefined>()  // undefined = added by the request
+    const written = new Map<string, NoteDataInput | undefined>()   // undefined = removed by the request
+    let timingBefore: TimingInfo | null = null
+    let timingWritten: TimingInfo | null = null
+    // Restored notes go back to where they were in the list
+    const startOrder = new Map(getNotes().map((n, index) => [n.id!, index]))
+    
+    // Compares what the roll holds afterwards, so ids it assigns are covered
+    const record = (previous: NoteDataInput[]) => {
+      const before = new Map(previous.map(n => [n.id!, n]))
+      const after = new Map(getNotes().map(n => [n.id!, n]))
+      new Set([...before.keys(), ...after.keys()]).forEach(id => {
+        if (sameNote(before.get(id), after.get(id))) return
+        if (!original.has(id)) original.set(id, before.get(id))
+        written.set(id, after.get(id))
+      })
+    }
+    
+    const io: NotesIO = {
+      getNotes,
+      setNotes: (notes, label) => {
+        const previous = getNotes()
+        setNotes(notes, label)
+        record(previous)
+      }
+    }
+    
+    // Timing changes can trim notes, which are recorded as well
+    const trackedSetTiming = setTiming && ((patch: Partial<TimingInfo>) => {
+      const previous = getNotes()
+      const previousTiming = readTiming()
+      const result = setTiming(patch)
+      if (result.timing) {
+        timingBefore ??= previousTiming
+        timingWritten = readTiming()
+        record(previous)
+      }
+      return result
+    })
+    
+    const rollBack = () => {
+      if (timingBefore && setTiming && JSON.stringify(readTiming()) === JSON.stringify(timingWritten)) {
+        setTiming(timingBefore)
+      }
+      
+      const current = new Map(getNotes().map(n => [n.id!, n]))
+      let changed = false
+      original.forEach((note, id) => {
+        if (!sameNote(current.get(id), written.get(id))) return
+        if (note) {
+          current.set(id, { ...note })
+        } else {
+          current.delete(id)
+        }
+        changed = true
+      })
+      if (!changed) return
+      const order = (id: string) => startOrder.get(id) ?? Infinity
+      setNotes(Array.from(current.values()).sort((a, b) => order(a.id!) - order(b.id!)), 'Claude: cancelled request')
+    }
+    
+    return { io, setTiming: trackedSetTiming, rollBack }
+  }
+  
+  function getToolDisplayName(toolName: string): string {
+    // Get function name for transform tools
+    if (toolName.startsWith('transform_slot_') && registry) {
+      const slotIndex = parseInt(toolName.replace('transform_slot_', '')) - 1
+      const slot = registry.slots[slotIndex]
+      if (slot && slot.functionName) {
+        return slot.functionName
+      }
+    }
+    if (toolName.startsWith('builtin_') || toolName.startsWith('pipeline_')) {
+      return toolName.replace(/^(builtin|pipeline)_/, '')
+    }
+    return toolName
+  }
+  
+  
+  function trimTurns(candidate: ConversationTurn[]): ConversationTurn[] {
+    const firstKept = firstTurnInBudget(candidate)
+    const dropped = candidate.slice(0, firstKept).flatMap(summarizeTurn)
+    if (dropped.length > 0) {
+      summaryLines = [...summaryLines, ...dropped].slice(-MAX_SUMMARY_LINES)
+    }
+    return candidate.slice(firstKept)
+  }
+  
   function reset() {
+    cancel()
+    turns = []
+    summaryLines = []
     messages.value = []
     error.value = null
     isWaiting.value = false
@@ -381,6 +1117,7 @@ function myTransform(notes, paramName) {
     isWaiting,
     error,
     send,
+    cancel,
     reset
   }
 }
@@ -0,0 +1,351 @@
+import { describe, expect, it } from 'vitest'
+import { createTransformRegistry, validateTransform } from './useTransformRegistry'
+import { createInlineTransformRunner, executeTransform } from './transformRunner'
+import type { KeyValueStorage } from './transformLibrary'
+import type { NoteDataInput } from '../components/pianoRoll/pianoRollState'
+
+const TRANSPOSE = `/**
+ * Transpose every note.
+ * @param {Note[]} notes - Input notes array
+ * @param {number} semitones - Interval to shift by (-12 to +12)
+ */
+function transpose(notes, semitones) {
+  return notes.map(n => ({ ...n, pitch: n.pitch + semitones }));
+}`
+
+describe('validateTransform', () => {
+  it('extracts the function name, summary and @param descriptions', () => {
+    const result = validateTransform(TRANSPOSE)
+
+    expect(result.valid).toBe(true)
+    expect(result.functionName).toBe('transpose')
+    expect(result.jsdocSummary).toBe('Transpose every note.')
+    expect(result.params).toEqual([
+      { name: 'notes', type: 'number', optional: false, description: 'Input notes array' },
+      { name: 'semitones', type: 'number', optional: false, description: 'Interval to shift by (-12 to +12)', min: -12, max: 12 }
+    ])
+  })
+
+  it('accepts arrow functions assigned to a const', () => {
+    const result = validateTransform(`/**
+ * Halve durations.
+ * @param {Note[]} notes - Input notes
+ */
+const halve = (notes) => notes.map(n => ({ ...n, duration: n.duration / 2 }));`)
+
+    expect(result.valid).toBe(true)
+    expect(result.functionName).toBe('halve')
+  })
+
+  it('ignores helper functions nested inside the transform', () => {
+    const result = validateTransform(`/**
+ * Double every duration.
+ * @param {Note[]} notes - Input notes
+ */
+function stretch(notes) {
+  const twice = value => value * 2;
+  return notes.map(n => ({ ...n, duration: twice(n.duration) }));
+}`)
+
+    expect(result.functionName).toBe('stretch')
+  })
+
+  it('falls back to any JSDoc line mentioning a param without an @param tag', () => {
+    const result = validateTransform(`/**
+ * Humanize timing.
+ * amount controls the maximum offset in quarter notes
+ */
+function humanize(notes, amount) { return notes; }`)
+
+    expect(result.valid).toBe(true)
+    expect(result.params![1]).toMatchObject({ name: 'amount', description: 'amount controls the maximum offset in quarter notes' })
+  })
+
+  it('reads typed, optional and defaulted params', () => {
+    const result = validateTransform(`/**
+ * Arpeggiate chords.
+ * @param {Note[]} notes - Input notes
+ * @param {'up'|'down'} [direction='up'] - Direction
+ * @param {boolean} hold - Keep notes ringing
+ * @param {pitch} root - Lowest pitch
+ */
+function arp(notes, direction, hold, root, rate = 4) { return notes; }`)
+
+    expect(result.errors).toEqual(['Parameter "rate" is not documented in JSDoc'])
+
+    const documented = validateTransform(`/**
+ * Arpeggiate chords.
+ * @param {Note[]} notes - Input notes
+ * @param {'up'|'down'} [direction='up'] - Direction
+ * @param {boolean} hold - Keep notes ringing
+ * @param {pitch} root - Lowest pitch
+ * @param {number} rate - Notes per beat
+ */
+function arp(notes, direction, hold, root, rate = 4) { return notes; }`)
+
+    expect(documented.params!.slice(1)).toEqual([
+      { name: 'direction', type: 'enum', options: ['up', 'down'], optional: true, default: 'up', description: 'Direction' },
+      { name: 'hold', type: 'boolean', optional: false, description: 'Keep notes ringing' },
+      { name: 'root', type: 'pitch', optional: false, description: 'Lowest pitch' },
+      { name: 'rate', type: 'number', optional: true, default: 4, description: 'Notes per beat' }
+    ])
+  })
+
+  it('uses the JSDoc block closest to the function', () => {
+    const result = validateTransform(`/**
+ * Unrelated header comment.
+ */
+/**
+ * Reverse the note order.
+ * @param {Note[]} notes - Input notes
+ */
+function reverse(notes) { return [...notes].reverse(); }`)
+
+    expect(result.jsdocSummary).toBe('Reverse the note order.')
+  })
+
+  it.each([
+    ['no function', 'const x = 1;', 'No function found'],
+    ['missing JSDoc', 'function f(notes) { return notes; }', 'JSDoc comment'],
+    ['wrong first param', '/** Doc. */\nfunction f(items) { return items; }', 'First parameter must be named "notes"'],
+    ['undocumented param', '/**\n * Doc.\n * @param {Note[]} notes - Notes\n */\nfunction f(notes, depth) { return notes; }', 'Parameter "depth" is not documented'],
+    ['syntax error', '/** Doc. */\nfunction f(notes) { return [', 'Parse error']
+  ])('rejects %s', (_, code, message) => {
+    const result = validateTransform(code)
+
+    expect(result.valid).toBe(false)
+    expect(result.errors.join('\n')).toContain(message)
+  })
+})
+
+describe('createTransformRegistry', () => {
+  function createRegistry(initial: NoteDataInput[], storage: KeyValueStorage | null = null) {
+    let notes = initial
+    const labels: string[] = []
+    const proposals: Array<{ notes: NoteDataInput[], label: string }> = []
+    const registry = createTransformRegistry({
+      getNotes: () => notes,
+      setNotes: (next, label) => {
+        notes = next
+        labels.push(label ?? '')
+      },
+      getGrid: () => ({ maxLength: 16, timeSignature: 4, timeSignatureDenominator: 4, bpm: 120, subdivision: 16 }),
+      undo: () => {},
+      redo: () => {},
+      canUndo: () => false,
+      canRedo: () => false,
+      runTransform: createInlineTransformRunner(),
+      storage,
+      previewNotes: (proposed, label) => proposals.push({ notes: proposed, label })
+    })
+    return { registry, labels, proposals, getNotes: () => notes }
+  }
+
+  it('applies a slot as one labelled write with clamped output', async () => {
+    const { registry, labels, getNotes } = createRegistry([{ id: 'a', pitch: 120, position: 0, duration: 1 }])
+    await registry.writeTransformFunction(0, TRANSPOSE)
+
+    const result = await registry.applyTransform(0, [12])
+
+    expect(result).toEqual({ status: 'ok', count: 1 })
+    expect(getNotes()[0]!.pitch).toBe(127)
+    expect(labels).toEqual(['transform_slot_1: transpose(12)'])
+  })
+
+  it('only transforms selected notes when asked to', async () => {
+    const { registry, getNotes } = createRegistry([
+      { id: 'a', pitch: 60, position: 0, duration: 1, selected: true },
+      { id: 'b', pitch: 64, position: 1, duration: 1 }
+    ])
+    await registry.writeTransformFunction(0, TRANSPOSE)
+
+    await registry.applyTransform(0, [2], { selectedOnly: true })
+
+    const byId = new Map(getNotes().map(n => [n.id, n.pitch]))
+    expect(byId.get('a')).toBe(62)
+    expect(byId.get('b')).toBe(64)
+  })
+
+  it('builds typed tool schemas and coerces tool input', async () => {
+    const { registry, labels } = createRegistry([{ id: 'a', pitch: 60, position: 0, duration: 1 }])
+    await registry.writeTransformFunction(0, `/**
+ * Move notes to a root.
+ * @param {Note[]} notes - Input notes
+ * @param {pitch} root - Target pitch
+ * @param {'up'|'down'} [direction='up'] - Direction
+ */
+function moveTo(notes, root, direction) { return notes.map(n => ({ ...n, pitch: direction === 'up' ? root : root - 12 })); }`)
+
+    const schema = registry.getToolDefs().find(t => t.name === 'transform_slot_1')!.input_schema
+    expect(schema.required).toEqual(['root'])
+    expect((schema.properties as any).direction).toMatchObject({ type: 'string', enum: ['up', 'down'], default: 'up' })
+
+    expect(registry.resolveArgs(0, { root: 'C#4' })).toEqual({ args: [61, 'up'] })
+    expect(registry.resolveArgs(0, { root: 'C4', direction: 'sideways' }).error).toContain('must be one of: up, down')
+
+    const handler = registry.getToolHandlers().get('transform_slot_1')!
+    expect((await handler({})).error).toBe('Missing required parameter "root"')
+    await handler({ root: 'D4', direction: 'down' })
+    expect(labels).toEqual(['transform_slot_1: moveTo(62, "down")'])
+  })
+
+  it('restores saved slots and round-trips them through the library', async () => {
+    const data = new Map<string, string>()
+    const storage: KeyValueStorage = { getItem: key => data.get(key) ?? null, setItem: (key, value) => { data.set(key, value) } }
+    const { registry } = createRegistry([], storage)
+    await registry.writeTransformFunction(2, TRANSPOSE)
+    registry.setCode(3, 'work in progress')
+    const saved = registry.saveSlotToLibrary(2)
+
+    const { registry: reloaded } = createRegistry([], storage)
+
+    expect(reloaded.slots[2]).toMatchObject({ isValid: true, functionName: 'transpose', code: TRANSPOSE })
+    expect(reloaded.slots[3]).toMatchObject({ isValid: false, code: 'work in progress' })
+    expect(reloaded.library.entries.map(e => e.name)).toEqual(['transpose'])
+
+    const result = await reloaded.loadFromLibrary(saved.entry!.id, 0)
+    expect(result.valid).toBe(true)
+    expect(reloaded.slots[0]!.params[1]!.name).toBe('semitones')
+  })
+
+  it('offers built-ins as tools without using a slot', async () => {
+    const { registry, labels, getNotes } = createRegistry([{ id: 'a', pitch: 60, position: 0, duration: 1 }])
+
+    expect(registry.slots.every(s => !s.isValid)).toBe(true)
+    expect(registry.getToolDefs().map(t => t.name)).toContain('builtin_transpose')
+    expect(registry.summarizeTransforms()).toContain('- builtin_invert (invert): Mirror pitches around an axis pitch')
+
+    const result = await registry.getToolHandlers().get('builtin_invert')!({ axis: 'D4' })
+
+    expect(result.status).toBe('ok')
+    expect(getNotes()[0]!.pitch).toBe(64)
+    expect(labels).toEqual(['builtin_invert: invert(62)'])
+  })
+
+  it('hands previewed results over without writing and can read from another source', async () => {
+    const { registry, labels, proposals, getNotes } = createRegistry([{ id: 'a', pitch: 60, position: 0, duration: 1 }])
+
+    await registry.applyBuiltin('transpose', { semitones: 5 }, { preview: true })
+
+    expect(getNotes()[0]!.pitch).toBe(60)
+    expect(labels).toEqual([])
+    expect(proposals).toEqual([{ notes: [expect.objectContaining({ id: 'a', pitch: 65 })], label: 'builtin_transpose: transpose(5)' }])
+
+    let staged: NoteDataInput[] = [{ id: 'b', pitch: 40, position: 0, duration: 1 }]
+    const handler = registry.getToolHandlers({ getNotes: () => staged, setNotes: next => { staged = next } }).get('builtin_transpose')!
+    await handler({ semitones: 2 })
+
+    expect(staged[0]).toMatchObject({ id: 'b', pitch: 42 })
+    expect(getNotes()[0]!.pitch).toBe(60)
+  })
+
+  it('runs a pipeline as one labelled write and previews without writing', async () => {
+    const { registry, labels, getNotes } = createRegistry([{ id: 'a', pitch: 60, position: 0.1, duration: 1 }])
+    const saved = registry.savePipeline({
+      name: 'tidy',
+      steps: [
+        { transform: 'builtin_quantize', args: { grid: 0.5 } },
+        { transform: 'builtin_transpose', args: { semitones: 12 }, expose: ['semitones'] }
+      ]
+    })
+    expect(saved.status).toBe('ok')
+
+    const preview = await registry.previewPipeline('tidy', { semitones: 5 })
+    expect(preview.notes!.map(n => [n.pitch, n.position])).toEqual([[65, 0]])
+    expect(labels).toEqual([])
+
+    const schema = registry.getToolDefs().find(t => t.name === 'pipeline_tidy')!.input_schema
+    expect(Object.keys(schema.properties as object)).toEqual(['semitones', 'selectedOnly', 'previewOnly'])
+    expect(schema.required).toEqual([])
+
+    await registry.getToolHandlers().get('pipeline_tidy')!({})
+
+    expect(getNotes().map(n => [n.pitch, n.position])).toEqual([[72, 0]])
+    expect(labels).toEqual(['pipeline_tidy: quantize → transpose'])
+  })
+
+  it('leaves the notes alone when a later pipeline step fails', async () => {
+    const { registry, labels } = createRegistry([{ id: 'a', pitch: 60, position: 0, duration: 1 }])
+    await registry.writeTransformFunction(0, `/**
+ * Fails on purpose.
+ * @param {Note[]} notes - Notes
+ */
+function boom(notes) { if (notes.length) throw new Error('nope'); return notes; }`)
+
+    const result = await registry.runPipeline({
+      name: 'draft',
+      steps: [{ transform: 'builtin_transpose', args: { semitones: 2 } }, { transform: 'transform_slot_1', args: {} }]
+    })
+
+    expect(result).toEqual({ status: 'error', count: 0, error: 'Step 2 (boom): nope' })
+    expect(labels).toEqual([])
+  })
+
+  it('validates pipeline steps and prefixes clashing exposed params', () => {
+    const { registry } = createRegistry([])
+
+    expect(registry.savePipeline({ name: 'bad name', steps: [] }).error).toContain('Pipeline names')
+    expect(registry.savePipeline({ name: 'x', steps: [{ transform: 'transform_slot_4', args: {} }] }).error)
+      .toBe('Step 1: "transform_slot_4" is not an available transform')
+    expect(registry.savePipeline({ name: 'x', steps: [{ transform: 'builtin_transpose', args: { amount: 1 } }] }).error)
+      .toBe('Step 1: transpose has no parameter "amount"')
+
+    const { pipeline } = registry.savePipeline({
+      name: 'twice',
+      steps: [
+        { transform: 'builtin_transpose', args: { semitones: 1 }, expose: ['semitones'] },
+        { transform: 'builtin_transpose', args: {}, expose: ['semitones'] }
+      ]
+    })
+    expect(registry.getExposedPipelineParams(pipeline!).map(e => [e.param.name, e.param.default])).toEqual([
+      ['step1_semitones', 1],
+      ['step2_semitones', undefined]
+    ])
+  })
+
+  it('rejects code whose smoke test does not return an array', async () => {
+    const { registry } = createRegistry([])
+
+    const result = await registry.writeTransformFunction(0, '/**\n * Doc.\n * @param {Note[]} notes - Notes\n */\nfunction f(notes) { return 1; }')
+
+    expect(result.valid).toBe(false)
+    expect(result.errors).toEqual(['Function must return an array'])
+    expect(registry.slots[0]!.isValid).toBe(false)
+  })
+
+  it('reports runtime errors without touching the notes', async () => {
+    const { registry, labels } = createRegistry([{ id: 'a', pitch: 60, position: 0, duration: 1 }])
+    await registry.writeTransformFunction(0, `/**
+ * Throws on real input.
+ * @param {Note[]} notes - Notes
+ */
+function boom(notes) { if (notes.length) throw new Error('nope'); return notes; }`)
+
+    const result = await registry.applyTransform(0, [])
+
+    expect(result.status).toBe('error')
+    expect(result.error).toBe('nope')
+    expect(labels).toEqual([])
+  })
+})
+
+describe('executeTransform', () => {
+  const run = (body: string, notes = [{ pitch: 60, position: 0, duration: 1 }]) =>
+    executeTransform({ code: `function t(notes) { ${body} }`, functionName: 't', notes, args: [] }, 4)
+
+  it('returns plain copies of the known note fields only', () => {
+    const result = run('return notes.map(n => ({ ...n, extra: () => 1, velocity: "90" }));')
+
+    expect(result).toEqual({ status: 'ok', notes: [{ pitch: 60, position: 0, duration: 1, velocity: 90 }] })
+  })
+
+  it('caps the number of returned notes', () => {
+    const result = run('return Array.from({ length: 5 }, () => notes[0]);')
+
+    expect(result).toEqual({ status: 'error', error: 'Transform returned 5 notes (limit 4)' })
+  })
+
+  it('rejects non-object items', () => {
+    expect(run('return [1, 2];').status).toBe('error')
+  })
+})
@@ -1,27 +1,29 @@
-import { ref, reactive } from 'vue'
+import { reactive } from 'vue'
 import { Parser } from 'acorn'
 import * as walk from 'acorn-walk'
 import type { NoteDataInput } from '../components/pianoRoll/pianoRollState'
 import type Anthropic from '@anthropic-ai/sdk'
+import { uid } from '../components/pianoRoll/pianoRollUtils'
+import { createWorkerTransformRunner, type TransformArg, type TransformRunner } from './transformRunner'
+import { BUILTIN_TRANSFORMS } from './builtinTransforms'
+import { createTransformLibrary, getDefaultStorage, readStoredJson, writeStoredJson, type KeyValueStorage, type TransformLibrary, type TransformLibraryEntry } from './transformLibrary'
+import { getExposedParams, MAX_PIPELINE_STEPS, PIPELINE_NAME_PATTERN, pipelineToolName, sanitizePipelineInput, type ExposedParam, type PipelineInput, type TransformPipeline } from './transformPipelines'
+import { applyParamTag, coerceParamValue, createParam, describeParam, paramToSchema, type ParamInfo } from './transformParams'
 
 interface GridInfo {
   maxLength: number
   timeSignature: number
+  timeSignatureDenominator: number
+  bpm: number
   subdivision: number
 }
 
-interface ParamInfo {
-  name: string
-  description?: string
-}
-
 interface ValidationResult {
   valid: boolean
   errors: string[]
   functionName?: string
   params?: ParamInfo[]
   jsdocSummary?: string
-  compiled?: (notes: NoteDataInput[], ...args: number[]) => NoteDataInput[]
 }
 
 export interface TransformSlot {
@@ -31,26 +33,62 @@ export interface TransformSlot {
   functionName?: string
   params: ParamInfo[]
   errors: string[]
-  compiled?: (notes: NoteDataInput[], ...args: number[]) => NoteDataInput[]
   jsdocSummary?: string
 }
 
+// History is owned by the piano roll's CommandStack; the registry only labels
+// its writes and forwards undo/redo so the roll and the workbench stay in sync.
 interface TransformRegistryConfig {
   getNotes: () => NoteDataInput[]
-  setNotes: (notes: NoteDataInput[]) => void
+  setNotes: (notes: NoteDataInput[], label?: string) => void
   getGrid: () => GridInfo
+  undo: () => void
+  redo: () => void
+  canUndo: () => boolean
+  canRedo: () => boolean
+  // Where transform code runs; defaults to an isolated worker with a timeout
+  runTransform?: TransformRunner
+  // Slots (and the default library) are saved here; defaults to localStorage, null disables saving
+  storage?: KeyValueStorage | null
+  library?: TransformLibrary
+  // Shows a result as a proposal over the roll instead of writing it (see ApplyTransformOptions.preview)
+  previewNotes?: (notes: NoteDataInput[], label: string) => void
+}
+
+// Where a run reads and writes notes; the roll unless overridden
+export interface NotesIO {
+  getNotes: () => NoteDataInput[]
+  setNotes: (notes: NoteDataInput[], label?: string) => void
+}
+
+interface ApplyTransformOptions {
+  // Run the transform on the selected notes only and keep the rest unchanged
+  selectedOnly?: boolean
+  // Hand the result to config.previewNotes for review instead of writing it
+  preview?: boolean
+  // Read/write somewhere else, e.g. the chat's buffer of unreviewed edits
+  notes?: NotesIO
+}
+
+interface PipelineResult {
+  status: string
+  count: number
+  error?: string
+  notes?: NoteDataInput[]  // previews only: every note as it would be after the run
 }
 
 const MAX_NOTES = 512
-const MAX_UNDO_STACK = 20
+const SLOTS_STORAGE_KEY = 'pianoRoll.transformSlots'
+const PIPELINES_STORAGE_KEY = 'pianoRoll.transformPipelines'
+const MAX_PREVIEW_NOTES = 64  // notes returned to Claude by a pipeline preview
 
 function validateClampNotes(inputNotes: any[], grid: GridInfo): NoteDataInput[] {
   const notes = inputNotes.slice(0, MAX_NOTES)
   
   return notes.map((n, i) => {
     const pitch = Math.max(0, Math.min(127, Math.round(n.pitch ?? 60)))
-    const position = Math.max(0, n.position ?? 0)
     const minDuration = 1 / grid.subdivision
+    const position = Math.min(Math.max(0, n.position ?? 0), Math.max(0, grid.maxLength - minDuration))
     const duration = Math.max(minDuration, n.duration ?? 0.25)
     const velocity = Math.max(0, Math.min(127, n.velocity ?? 100))
     
@@ -58,6 +96,7 @@ function validateClampNotes(inputNotes: any[], grid: GridInfo): NoteDataInput[]
     
     return {
       id: n.id || `note-${Date.now()}-${i}`,
+      trackId: typeof n.trackId === 'string' ? n.trackId : undefined,
       pitch,
       position,
       duration: Math.min(duration, maxDuration),
@@ -67,7 +106,7 @@ function validateClampNotes(inputNotes: any[], grid: GridInfo): NoteDataInput[]
 }
 
 function extractJSDocParams(comments: any[], paramNames: string[]): { params: ParamInfo[]; summary?: string } {
-  const params: ParamInfo[] = paramNames.map(name => ({ name }))
+  const params: ParamInfo[] = paramNames.map(createParam)
   let summary: string | undefined
   
   for (const comment of comments) {
@@ -83,13 +122,16 @@ function extractJSDocParams(comments: any[], paramNames: string[]): { params: Pa
         }
       }
       
-      // Extract param descriptions
+      // Extract param types and descriptions; `[name=default]` marks optional params
       for (const line of lines) {
-        const paramMatch = line.match(/@param\s*\{[^}]+\}\s*(\w+)\s*-?\s*(.*)/)
+        const paramMatch = line.match(/@param\s*\{([^}]+)\}\s*(\[[^\]]*\]|\w+)\s*-?\s*(.*)/)
         if (paramMatch) {
-          const [, name, description] = paramMatch
+          const [, type, nameText, description] = paramMatch
+          const name = nameText!.replace(/^\[\s*(\w+).*$/, '$1')
           const param = params.find(p => p.name === name)
-          if (param && description) {
+          if (param && name !== 'notes') {
+            applyParamTag(param, type!, nameText!, description!.trim())
+          } else if (param && description) {
             param.description = description.trim()
           }
         }
@@ -115,7 +157,28 @@ function extractJSDocParams(comments: any[], paramNames: string[]): { params: Pa
   return { params, summary }
 }
 
-function validateTransform(code: string): ValidationResult {
+function paramNameOf(node: any): string {
+  return node.type === 'AssignmentPattern' ? node.left.name : node.name
+}
+
+// Literal defaults from the function signature (`amount = 2`, `mode = 'up'`, `x = -1`)
+function collectDefaults(nodes: any[]): Map<string, TransformArg> {
+  const defaults = new Map<string, TransformArg>()
+  nodes.forEach(node => {
+    if (node.type !== 'AssignmentPattern') return
+    const right = node.right
+    if (right.type === 'Literal' && ['number', 'string', 'boolean'].includes(typeof right.value)) {
+      defaults.set(node.left.name, right.value)
+    } else if (right.type === 'UnaryExpression' && right.operator === '-' && typeof right.argument.value === 'number') {
+      defaults.set(node.left.name, -right.argument.value)
+    } else {
+      defaults.set(node.left.name, undefined)
+    }
+  })
+  return defaults
+}
+
+export function validateTransform(code: string): ValidationResult {
   const errors: string[] = []
   const comments: any[] = []
   
@@ -133,14 +196,21 @@ function validateTransform(code: string): ValidationResult {
     let transformNode: any = null
     let functionName: string | undefined
     let transformParams: string[] = []
+    let jsDefaults = new Map<string, TransformArg>()
     let leadingComment: any = null
     
+    // Only top-level functions count; walk.simple visits nested helpers
+    // (e.g. `const snap = v => ...` inside the body) before their parent
+    const topLevel = (node: any) => (ast as any).body.some((statement: any) =>
+      statement === node || (statement.type === 'VariableDeclaration' && statement.declarations.includes(node)))
+    
     walk.simple(ast, {
       FunctionDeclaration(node: any) {
-        if (node.id && !transformNode) {
+        if (node.id && !transformNode && topLevel(node)) {
           transformNode = node
           functionName = node.id.name
-          transformParams = node.params.map((p: any) => p.name)
+          transformParams = node.params.map(paramNameOf)
+          jsDefaults = collectDefaults(node.params)
           
           // Find preceding comment
           for (const comment of comments) {
@@ -151,11 +221,12 @@ function validateTransform(code: string): ValidationResult {
         }
       },
       VariableDeclarator(node: any) {
-        if (node.id && !transformNode &&
+        if (node.id && !transformNode && topLevel(node) &&
             node.init && (node.init.type === 'FunctionExpression' || node.init.type === 'ArrowFunctionExpression')) {
           transformNode = node.init
           functionName = node.id.name
-          transformParams = node.init.params.map((p: any) => p.name)
+          transformParams = node.init.params.map(paramNameOf)
+          jsDefaults = collectDefaults(node.init.params)
           
           // Find preceding comment
           const parentStart = (node as any).start
@@ -192,6 +263,13 @@ function validateTransform(code: string): ValidationResult {
     // Extract JSDoc info
     const { params, summary } = extractJSDocParams([leadingComment], transformParams)
     
+    // `function f(notes, amount = 2)` makes `amount` optional too
+    params.forEach(param => {
+      if (!jsDefaults.has(param.name)) return
+      param.optional = true
+      param.default ??= jsDefaults.get(param.name)
+    })
+    
     // Validate that all params are documented
     for (let i = 1; i < transformParams.length; i++) {
       const paramName = transformParams[i]
@@ -205,30 +283,13 @@ function validateTransform(code: string): ValidationResult {
       return { valid: false, errors }
     }
     
-    // Compile the function
-    const factory = new Function(
-      '"use strict";\n' + 
-      code + 
-      `\nif (typeof ${functionName} !== "function") throw new Error("${functionName} is not defined");\n` +
-      `return ${functionName};`
-    )
-    
-    const compiledFn = factory()
-    
-    // Smoke test
-    const testResult = compiledFn([])
-    if (!Array.isArray(testResult)) {
-      errors.push('Function must return an array')
-      return { valid: false, errors }
-    }
-    
+    // Static checks only - the code is never executed here (see validateSlot)
     return {
       valid: true,
       errors: [],
       functionName,
       params,
-      jsdocSummary: summary,
-      compiled: compiledFn as any
+      jsdocSummary: summary
     }
     
   } catch (err: any) {
@@ -237,9 +298,90 @@ function validateTransform(code: string): ValidationResult {
   }
 }
 
+// Turn named raw values (tool input, workbench fields) into positional args.
+// Enum/pitch/range handling lives in coerceParamValue.
+function resolveParamArgs(params: ParamInfo[], input: Record<string, unknown>): { args?: TransformArg[]; error?: string } {
+  const args: TransformArg[] = []
+  for (const param of params) {
+    if (param.name === 'notes') continue
+    const { value, error } = coerceParamValue(param, input[param.name])
+    if (error) return { error }
+    args.push(value)
+  }
+  return { args }
+}
+
+function buildToolDef(name: string, description: string, params: ParamInfo[]): Anthropic.Tool {
+  const properties: Record<string, any> = {}
+  const required: string[] = []
+  
+  for (const param of params) {
+    if (param.name === 'notes') continue
+    
+    properties[param.name] = paramToSchema(param)
+    if (!param.optional && param.default === undefined) required.push(param.name)
+  }
+  
+  properties.selectedOnly = {
+    type: 'boolean',
+    description: 'If true, transform only the currently selected notes and leave all other notes unchanged'
+  }
+  
+  return {
+    name,
+    description,
+    input_schema: {
+      type: 'object',
+      properties,
+      required
+    }
+  }
+}
+
+interface TransformSource {
+  code: string
+  functionName: string
+}
+
+export interface BuiltinTransform extends TransformSource {
+  toolName: string
+  params: ParamInfo[]
+  jsdocSummary?: string
+}
+
+// Parsed once at load; the test suite checks that every built-in validates
+const BUILTINS: BuiltinTransform[] = BUILTIN_TRANSFORMS.flatMap(code => {
+  const result = validateTransform(code)
+  if (!result.valid) {
+    console.error('Invalid built-in transform', result.errors)
+    return []
+  }
+  return [{
+    toolName: `builtin_${result.functionName}`,
+    code,
+    functionName: result.functionName!,
+    params: result.params || [],
+    jsdocSummary: result.jsdocSummary
+  }]
+})
+
 export function createTransformRegistry(config: TransformRegistryConfig) {
   const { getNotes, setNotes, getGrid } = config
   
+  // Final write of a run: to the roll, to another NotesIO, or into a proposal
+  function writeResult(notes: NoteDataInput[], label: string, options: ApplyTransformOptions): string | null {
+    if (options.preview) {
+      if (!config.previewNotes) return 'Preview is not available here'
+      config.previewNotes(notes, label)
+    } else {
+      (options.notes?.setNotes ?? setNotes)(notes, label)
+    }
+    return null
+  }
+  const runTransform = config.runTransform ?? createWorkerTransformRunner()
+  const storage = config.storage === undefined ? getDefaultStorage() : config.storage
+  const library = config.library ?? createTransformLibrary({ storage })
+  
   const slots = reactive<TransformSlot[]>(
     Array.from({ length: 8 }, (_, i) => ({
       code: '',
@@ -247,13 +389,46 @@ export function createTransformRegistry(config: TransformRegistryConfig) {
       name: `Slot ${i + 1}`,
       params: [],
       errors: [],
-      compiled: undefined,
       jsdocSummary: undefined
     }))
   )
   
-  const undoStack = ref<NoteDataInput[][]>([])
-  const redoStack = ref<NoteDataInput[][]>([])
+  // Only code and validity are saved; metadata is re-derived on load. Slots that
+  // were valid passed their smoke test when saved, so the static check suffices.
+  const persistSlots = () => {
+    writeStoredJson(storage, SLOTS_STORAGE_KEY, slots.map(slot => ({ code: slot.code, isValid: slot.isValid })))
+  }
+  
+  const storedSlots = readStoredJson(storage, SLOTS_STORAGE_KEY)
+  if (Array.isArray(storedSlots)) {
+    storedSlots.slice(0, slots.length).forEach((saved: any, i) => {
+      if (typeof saved?.code !== 'string') return
+      const slot = slots[i]!
+      slot.code = saved.code
+      
+      const result = saved.isValid === true ? validateTransform(saved.code) : null
+      if (result?.valid) {
+        slot.isValid = true
+        slot.functionName = result.functionName
+        slot.params = result.params || []
+        slot.jsdocSummary = result.jsdocSummary
+      }
+    })
+  }
+  
+  const pipelines = reactive<TransformPipeline[]>([])
+  
+  const persistPipelines = () => writeStoredJson(storage, PIPELINES_STORAGE_KEY, pipelines)
+  
+  const storedPipelines = readStoredJson(storage, PIPELINES_STORAGE_KEY)
+  if (Array.isArray(storedPipelines)) {
+    storedPipelines.forEach((raw: any) => {
+      const pipeline = sanitizePipelineInput(raw)
+      if (pipeline && PIPELINE_NAME_PATTERN.test(pipeline.name)) {
+        pipelines.push({ ...pipeline, id: typeof raw.id === 'string' ? raw.id : uid('pipeline_') })
+      }
+    })
+  }
   
   function setCode(slotIndex: number, code: string) {
     if (slotIndex < 0 || slotIndex >= 8) return
@@ -262,130 +437,295 @@ export function createTransformRegistry(config: TransformRegistryConfig) {
     slot.code = code
     slot.isValid = false
     slot.errors = []
-    slot.compiled = undefined
+    slot.functionName = undefined
     slot.params = []
     slot.jsdocSummary = undefined
+    persistSlots()
   }
   
-  function validateSlot(slotIndex: number): ValidationResult {
+  async function validateSlot(slotIndex: number): Promise<ValidationResult> {
     if (slotIndex < 0 || slotIndex >= 8) {
       return { valid: false, errors: ['Invalid slot index'] }
     }
     
     const slot = slots[slotIndex]!
-    const result = validateTransform(slot.code)
+    const code = slot.code
+    let result = validateTransform(code)
+    
+    if (result.valid) {
+      // Smoke test in the sandbox: it must compile, terminate and return an array
+      const smokeTest = await runTransform({ code, functionName: result.functionName!, notes: [], args: [] })
+      if (smokeTest.status === 'error') {
+        result = { valid: false, errors: [smokeTest.error] }
+      }
+    }
+    
+    // The code was edited while the smoke test ran; that edit reset the slot
+    if (slot.code !== code) return result
     
     slot.isValid = result.valid
     slot.errors = result.errors
     
-    if (result.valid && result.compiled) {
-      slot.compiled = result.compiled
+    if (result.valid) {
       slot.functionName = result.functionName
       slot.params = result.params || []
       slot.jsdocSummary = result.jsdocSummary
     }
+    persistSlots()
     
     return result
   }
   
-  function applyTransform(slotIndex: number, args: number[]): { status: string; count: number; error?: string } {
+  function resolveArgs(slotIndex: number, input: Record<string, unknown>): { args?: TransformArg[]; error?: string } {
+    const slot = slots[slotIndex]
+    if (!slot || !slot.isValid) return { error: 'Slot not validated' }
+    return resolveParamArgs(slot.params, input)
+  }
+  
+  // Shared by slots and built-ins: run on all (or the selected) notes and write
+  // the result back as one labelled history entry
+  async function runOnNotes(source: TransformSource, label: string, args: TransformArg[], options: ApplyTransformOptions): Promise<{ status: string; count: number; error?: string }> {
+    const notes = (options.notes?.getNotes ?? getNotes)()
+    const input = options.selectedOnly ? notes.filter(n => n.selected) : notes
+    if (options.selectedOnly && input.length === 0) {
+      return { status: 'error', count: 0, error: 'No notes are selected' }
+    }
+    
+    const result = await runTransform({ code: source.code, functionName: source.functionName, notes: input, args })
+    if (result.status === 'error') {
+      return { status: 'error', count: 0, error: result.error }
+    }
+    
+    const normalized = validateClampNotes(result.notes, getGrid())
+    const untouched = options.selectedOnly ? notes.filter(n => !n.selected) : []
+    
+    const fullLabel = `${label}: ${source.functionName}(${args.map(arg => JSON.stringify(arg) ?? 'undefined').join(', ')})`
+    const writeError = writeResult([...untouched, ...normalized], options.selectedOnly ? `${fullLabel} on selection` : fullLabel, options)
+    if (writeError) {
+      return { status: 'error', count: 0, error: writeError }
+    }
+    
+    return { status: 'ok', count: normalized.length }
+  }
+  
+  async function applyTransform(slotIndex: number, args: TransformArg[], options: ApplyTransformOptions = {}): Promise<{ status: string; count: number; error?: string }> {
     if (slotIndex < 0 || slotIndex >= 8) {
       return { status: 'error', count: 0, error: 'Invalid slot index' }
     }
     
     const slot = slots[slotIndex]!
-    if (!slot.isValid || !slot.compiled) {
+    if (!slot.isValid || !slot.functionName) {
       return { status: 'error', count: 0, error: 'Slot not validated' }
     }
     
-    try {
-      const prevNotes = getNotes()
-      undoStack.value.push(prevNotes)
-      if (undoStack.value.length > MAX_UNDO_STACK) {
-        undoStack.value.shift()
-      }
-      redoStack.value = []
-      
-      const result = slot.compiled(prevNotes, ...args)
-      const normalized = validateClampNotes(result, getGrid())
+    return runOnNotes({ code: slot.code, functionName: slot.functionName }, `transform_slot_${slotIndex + 1}`, args, options)
+  }
+  
+  // Built-ins are addressed by function name, with named (raw) args
+  async function applyBuiltin(functionName: string, input: Record<string, unknown> = {}, options: ApplyTransformOptions = {}): Promise<{ status: string; count: number; error?: string }> {
+    const builtin = BUILTINS.find(b => b.functionName === functionName)
+    if (!builtin) {
+      return { status: 'error', count: 0, error: `Unknown built-in transform "${functionName}"` }
+    }
+    
+    const { args, error } = resolveParamArgs(builtin.params, input)
+    if (error) {
+      return { status: 'error', count: 0, error }
+    }
+    return runOnNotes(builtin, builtin.toolName, args!, options)
+  }
+  
+  // ===== Pipelines =====
+  
+  // Resolve a tool name used in a pipeline step to the code that runs
+  function findTransform(toolName: string): (TransformSource & { params: ParamInfo[] }) | null {
+    const builtin = BUILTINS.find(b => b.toolName === toolName)
+    if (builtin) return builtin
+    
+    const slotMatch = toolName.match(/^transform_slot_(\d+)$/)
+    const slot = slotMatch ? slots[Number(slotMatch[1]) - 1] : undefined
+    if (slot?.isValid && slot.functionName) {
+      return { code: slot.code, functionName: slot.functionName, params: slot.params }
+    }
+    return null
+  }
+  
+  const getExposed = (pipeline: PipelineInput): ExposedParam[] =>
+    getExposedParams(pipeline, transform => findTransform(transform)?.params ?? null)
+  
+  function getPipeline(name: string): TransformPipeline | undefined {
+    return pipelines.find(p => p.name === name)
+  }
+  
+  // Check every step against the transforms that exist right now
+  function checkPipeline(pipeline: PipelineInput): string | null {
+    if (pipeline.steps.length === 0) return 'A pipeline needs at least one step'
+    if (pipeline.steps.length > MAX_PIPELINE_STEPS) return `A pipeline can have at most ${MAX_PIPELINE_STEPS} steps`
+    
+    for (let i = 0; i < pipeline.steps.length; i++) {
+      const step = pipeline.steps[i]!
+      const transform = findTransform(step.transform)
+      if (!transform) return `Step ${i + 1}: "${step.transform}" is not an available transform`
       
-      setNotes(normalized)
+      const names = transform.params.filter(p => p.name !== 'notes').map(p => p.name)
+      const unknown = [...Object.keys(step.args), ...(step.expose ?? [])].find(name => !names.includes(name))
+      if (unknown) return `Step ${i + 1}: ${transform.functionName} has no parameter "${unknown}"`
+    }
+    return null
+  }
+  
+  function resolvePipelineArgs(pipeline: PipelineInput, input: Record<string, unknown>): { args?: TransformArg[][]; error?: string } {
+    const exposed = getExposed(pipeline)
+    const args: TransformArg[][] = []
+    
+    for (let i = 0; i < pipeline.steps.length; i++) {
+      const step = pipeline.steps[i]!
+      const raw: Record<string, unknown> = { ...step.args }
+      exposed.filter(e => e.stepIndex === i).forEach(e => {
+        if (input[e.param.name] !== undefined) raw[e.paramName] = input[e.param.name]
+      })
       
-      return { status: 'ok', count: normalized.length }
-    } catch (err: any) {
-      return { status: 'error', count: 0, error: err.message }
+      const resolved = resolveParamArgs(findTransform(step.transform)!.params, raw)
+      if (resolved.error) return { error: `Step ${i + 1}: ${resolved.error}` }
+      args.push(resolved.args!)
     }
+    return { args }
   }
   
-  function undo() {
-    if (undoStack.value.length === 0) return
+  // Run every step on intermediate results without touching the roll; nothing
+  // is written unless all steps succeed
+  async function computePipeline(pipeline: PipelineInput, input: Record<string, unknown>, options: ApplyTransformOptions): Promise<PipelineResult> {
+    const problem = checkPipeline(pipeline)
+    if (problem) return { status: 'error', count: 0, error: problem }
+    
+    const { args, error } = resolvePipelineArgs(pipeline, input)
+    if (error) return { status: 'error', count: 0, error }
+    
+    const notes = (options.notes?.getNotes ?? getNotes)()
+    let current = options.selectedOnly ? notes.filter(n => n.selected) : notes
+    if (options.selectedOnly && current.length === 0) {
+      return { status: 'error', count: 0, error: 'No notes are selected' }
+    }
     
-    const current = getNotes()
-    const prev = undoStack.value.pop()!
+    for (let i = 0; i < pipeline.steps.length; i++) {
+      const transform = findTransform(pipeline.steps[i]!.transform)!
+      const result = await runTransform({ code: transform.code, functionName: transform.functionName, notes: current, args: args![i]! })
+      if (result.status === 'error') {
+        return { status: 'error', count: 0, error: `Step ${i + 1} (${transform.functionName}): ${result.error}` }
+      }
+      current = validateClampNotes(result.notes, getGrid())
+    }
     
-    redoStack.value.push(current)
-    setNotes(prev)
+    const untouched = options.selectedOnly ? notes.filter(n => !n.selected) : []
+    return { status: 'ok', count: current.length, notes: [...untouched, ...current] }
   }
   
-  function redo() {
-    if (redoStack.value.length === 0) return
+  // Saving under an existing name replaces that pipeline
+  function savePipeline(raw: PipelineInput): { status: string; pipeline?: TransformPipeline; error?: string } {
+    const input = sanitizePipelineInput(raw)
+    if (!input) return { status: 'error', error: 'A pipeline needs a name and a list of steps' }
+    if (!PIPELINE_NAME_PATTERN.test(input.name)) {
+      return { status: 'error', error: 'Pipeline names must start with a letter and use only letters, digits, "_" or "-" (max 48)' }
+    }
+    
+    const problem = checkPipeline(input)
+    if (problem) return { status: 'error', error: problem }
     
-    const current = getNotes()
-    const next = redoStack.value.pop()!
+    const existing = getPipeline(input.name)
+    if (existing) {
+      Object.assign(existing, input)
+    } else {
+      pipelines.push({ ...input, id: uid('pipeline_') })
+    }
+    persistPipelines()
+    return { status: 'ok', pipeline: getPipeline(input.name) }
+  }
+  
+  function removePipeline(name: string): boolean {
+    const index = pipelines.findIndex(p => p.name === name)
+    if (index < 0) return false
+    pipelines.splice(index, 1)
+    persistPipelines()
+    return true
+  }
+  
+  // Works on saved pipelines (by name) and unsaved drafts from the builder
+  function previewPipeline(pipeline: string | PipelineInput, input: Record<string, unknown> = {}, options: ApplyTransformOptions = {}): Promise<PipelineResult> {
+    const target = typeof pipeline === 'string' ? getPipeline(pipeline) : pipeline
+    if (!target) return Promise.resolve({ status: 'error', count: 0, error: `Unknown pipeline "${pipeline}"` })
+    return computePipeline(target, input, options)
+  }
+  
+  // All steps land as a single undoable history entry
+  async function runPipeline(pipeline: string | PipelineInput, input: Record<string, unknown> = {}, options: ApplyTransformOptions = {}): Promise<PipelineResult> {
+    const target = typeof pipeline === 'string' ? getPipeline(pipeline) : pipeline
+    const result = await previewPipeline(pipeline, input, options)
+    if (result.status === 'error' || !target) return result
+    
+    const steps = target.steps.map(step => findTransform(step.transform)!.functionName).join(' → ')
+    const label = `${pipelineToolName(target.name || 'draft')}: ${steps}`
+    const writeError = writeResult(result.notes!, options.selectedOnly ? `${label} on selection` : label, options)
+    if (writeError) {
+      return { status: 'error', count: 0, error: writeError }
+    }
     
-    undoStack.value.push(current)
-    setNotes(next)
+    return { status: 'ok', count: result.count }
   }
   
   function getToolDefs(): Anthropic.Tool[] {
-    const tools: Anthropic.Tool[] = []
+    const tools: Anthropic.Tool[] = BUILTINS.map(builtin =>
+      buildToolDef(builtin.toolName, builtin.jsdocSummary || `Built-in ${builtin.functionName} transform`, builtin.params)
+    )
     
     for (let i = 0; i < slots.length; i++) {
       const slot = slots[i]!
       if (!slot.isValid) continue
       
-      const properties: Record<string, any> = {}
-      const required: string[] = []
+      tools.push(buildToolDef(`transform_slot_${i + 1}`, slot.jsdocSummary || `User-defined transform in ${slot.name}`, slot.params))
+    }
+    
+    pipelines.forEach(pipeline => {
+      if (checkPipeline(pipeline)) return
       
-      for (const param of slot.params) {
-        if (param.name === 'notes') continue
-        
-        properties[param.name] = {
-          type: 'number',
-          description: param.description || `Parameter ${param.name}`
-        }
-        required.push(param.name)
+      const tool = buildToolDef(
+        pipelineToolName(pipeline.name),
+        `${pipeline.description || 'Transform pipeline'} (runs ${pipeline.steps.map(s => s.transform).join(' → ')} as one undoable step)`,
+        getExposed(pipeline).map(e => e.param)
+      )
+      ;(tool.input_schema.properties as Record<string, any>).previewOnly = {
+        type: 'boolean',
+        description: 'If true, return the resulting notes without changing the piano roll'
       }
-      
-      tools.push({
-        name: `transform_slot_${i + 1}`,
-        description: slot.jsdocSummary || `User-defined transform in ${slot.name}`,
-        input_schema: {
-          type: 'object',
-          properties,
-          required
-        }
-      })
-    }
+      tools.push(tool)
+    })
     
     return tools
   }
   
-  function getToolHandlers(): Map<string, (input: any) => Promise<any>> {
+  // `notes` redirects what the tools read and write (chat review mode)
+  function getToolHandlers(notes?: NotesIO): Map<string, (input: any) => Promise<any>> {
     const handlers = new Map<string, (input: any) => Promise<any>>()
     
+    BUILTINS.forEach(builtin => {
+      handlers.set(builtin.toolName, async (input: any) => {
+        const result = await applyBuiltin(builtin.functionName, input ?? {}, { selectedOnly: input?.selectedOnly === true, notes })
+        return { ...result, grid: getGrid() }
+      })
+    })
+    
     for (let i = 0; i < slots.length; i++) {
       const slot = slots[i]!
       if (!slot.isValid) continue
       
       const toolName = `transform_slot_${i + 1}`
       handlers.set(toolName, async (input: any) => {
-        const args = slot.params
-          .filter(p => p.name !== 'notes')
-          .map(p => input[p.name] || 0)
-        
-        const result = applyTransform(i, args)
         const grid = getGrid()
+        const { args, error } = resolveArgs(i, input ?? {})
+        if (error) {
+          return { status: 'error', count: 0, error, grid }
+        }
+        
+        const result = await applyTransform(i, args!, { selectedOnly: input.selectedOnly === true, notes })
         
         return {
           status: result.status,
@@ -396,62 +736,120 @@ export function createTransformRegistry(config: TransformRegistryConfig) {
       })
     }
     
+    pipelines.forEach(pipeline => {
+      if (checkPipeline(pipeline)) return
+      
+      handlers.set(pipelineToolName(pipeline.name), async (input: any) => {
+        const options = { selectedOnly: input?.selectedOnly === true, notes }
+        const grid = getGrid()
+        if (input?.previewOnly === true) {
+          const preview = await previewPipeline(pipeline.name, input, options)
+          return { ...preview, notes: preview.notes?.slice(0, MAX_PREVIEW_NOTES), grid }
+        }
+        return { ...await runPipeline(pipeline.name, input ?? {}, options), grid }
+      })
+    })
+    
     return handlers
   }
   
-  function writeTransformFunction(slotIndex: number, code: string): ValidationResult {
+  function writeTransformFunction(slotIndex: number, code: string): Promise<ValidationResult> {
     setCode(slotIndex, code)
     return validateSlot(slotIndex)
   }
   
+  // Name defaults to the function name; an existing entry with that name is overwritten
+  function saveSlotToLibrary(slotIndex: number, name?: string): { status: string; entry?: TransformLibraryEntry; error?: string } {
+    const slot = slots[slotIndex]
+    if (!slot || !slot.isValid) {
+      return { status: 'error', error: 'Only validated slots can be saved to the library' }
+    }
+    
+    const entry = library.save({
+      name: name?.trim() || slot.functionName || slot.name,
+      code: slot.code,
+      functionName: slot.functionName,
+      summary: slot.jsdocSummary,
+      params: slot.params.map(p => ({ ...p }))
+    })
+    return { status: 'ok', entry }
+  }
+  
+  function loadFromLibrary(entryId: string, slotIndex: number): Promise<ValidationResult> {
+    const entry = library.getEntry(entryId)
+    if (!entry) {
+      return Promise.resolve({ valid: false, errors: ['Library entry not found'] })
+    }
+    return writeTransformFunction(slotIndex, entry.code)
+  }
+  
   function summarizeTransforms(): string {
-    const validSlots = slots.filter(s => s.isValid)
+    const describe = (toolName: string, functionName: string, summary: string, params: ParamInfo[]) => {
+      const paramList = params
+        .filter(p => p.name !== 'notes')
+        .map(describeParam)
+        .join(', ')
+      return `- ${toolName} (${functionName}): ${summary}${paramList ? ` | Params: ${paramList}` : ''}`
+    }
     
+    const lines = ['Built-in:']
+    BUILTINS.forEach(builtin => {
+      lines.push(describe(builtin.toolName, builtin.functionName, builtin.jsdocSummary || 'Built-in transform', builtin.params))
+    })
+    
+    lines.push('User slots:')
+    const validSlots = slots.filter(s => s.isValid)
     if (validSlots.length === 0) {
-      return 'No transform tools currently available.'
+      lines.push('- (none yet)')
     }
     
-    const lines: string[] = []
-    
     for (let i = 0; i < slots.length; i++) {
       const slot = slots[i]!
       if (!slot.isValid) continue
       
-      const toolName = `transform_slot_${i + 1}`
-      const functionName = slot.functionName || 'unnamed'
-      const summary = slot.jsdocSummary || 'User-defined transform'
-      const paramList = slot.params
-        .filter(p => p.name !== 'notes')
-        .map(p => `${p.name}${p.description ? ` (${p.description})` : ''}`)
-        .join(', ')
-      
-      lines.push(`- ${toolName} (${functionName}): ${summary}${paramList ? ` | Params: ${paramList}` : ''}`)
+      lines.push(describe(`transform_slot_${i + 1}`, slot.functionName || 'unnamed', slot.jsdocSummary || 'User-defined transform', slot.params))
+    }
+    
+    const runnable = pipelines.filter(p => !checkPipeline(p))
+    if (runnable.length > 0) {
+      lines.push('Pipelines (one undo step each; pass previewOnly to see the result first):')
+      runnable.forEach(pipeline => {
+        const steps = pipeline.steps.map(s => s.transform).join(' → ')
+        lines.push(describe(pipelineToolName(pipeline.name), steps, pipeline.description || 'Transform pipeline', getExposed(pipeline).map(e => e.param)))
+      })
     }
     
     return lines.join('\n')
   }
   
-  function canUndo() {
-    return undoStack.value.length > 0
-  }
-  
-  function canRedo() {
-    return redoStack.value.length > 0
-  }
-  
   return {
     slots,
+    getNotes,
+    getGrid,
     setCode,
     validateSlot,
+    resolveArgs,
     applyTransform,
-    undo,
-    redo,
-    canUndo,
-    canRedo,
+    applyBuiltin,
+    builtins: BUILTINS,
+    undo: config.undo,
+    redo: config.redo,
+    canUndo: config.canUndo,
+    canRedo: config.canRedo,
     getToolDefs,
     getToolHandlers,
     writeTransformFunction,
-    summarizeTransforms
+    summarizeTransforms,
+    library,
+    saveSlotToLibrary,
+    loadFromLibrary,
+    pipelines,
+    getExposedPipelineParams: getExposed,
+    savePipeline,
+    removePipeline,
+    previewPipeline,
+    runPipeline,
+    canPreview: !!config.previewNotes
   }
 }
 
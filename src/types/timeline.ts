@@ -1,5 +1,8 @@
+import type { MeterChange, TempoChange } from '../components/pianoRoll/pianoRollTiming'
+
 export interface TimelineNote {
   id: string
+  trackId: string
   pitch: number
   position: number
   duration: number
@@ -7,14 +10,28 @@ export interface TimelineNote {
   velocity?: number
 }
 
+export interface TimelineTrack {
+  id: string
+  name: string
+  channel: number
+  muted: boolean
+  solo: boolean
+  instrument: string
+}
+
 export interface TimelineGrid {
   maxLength: number
   timeSignature: number
+  timeSignatureDenominator: number
+  bpm: number
   subdivision: number
+  tempoChanges: TempoChange[]
+  meterChanges: MeterChange[]
 }
 
 export interface TimelineState {
   notes: TimelineNote[]
+  tracks: TimelineTrack[]
   playheadPosition: number
   queuePosition: number
   grid: TimelineGrid